@@ -1,508 +1,1322 @@
-import React, { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import './App.css';
-import { generateSurface } from './utils/surfaceGenerator';
+import { generateTruthSurface } from './utils/surfaceGenerator';
 import {
+  RoundSettings,
+  buildShareUrl,
+  createRoundSettings,
+  formatRoundSettings,
+  parseRoundSettings,
+  withNewSeed,
+} from './utils/roundSettings';
+import { VariogramParams, hasSill, isAnisotropic, totalSill } from './utils/variogramModels';
+import { CampaignPanel } from './components/CampaignPanel';
+import { CrossValidationPanel } from './components/CrossValidationPanel';
+import { DEFAULT_DISPLAY, DisplayControls, DisplaySettings } from './components/DisplayControls';
+import { ConceptHint, ConceptId, ExplainerContext } from './components/Explainer';
+import { ExportControls } from './components/ExportControls';
+import { ErrorDistribution } from './components/ErrorDistribution';
+import { EstimatorControls } from './components/EstimatorControls';
+import { NeighborhoodControls } from './components/NeighborhoodControls';
+import { ParamComparison } from './components/ParamComparison';
+import { ReplayControls } from './components/ReplayControls';
+import { ScoreHistory } from './components/ScoreHistory';
+import { SessionControls } from './components/SessionControls';
+import { Tutorial, hasSeenTutorial } from './components/Tutorial';
+import { SimulationControls, SimulationView } from './components/SimulationControls';
+import { SandboxImport } from './components/SandboxImport';
+import { SamplePair, SurfaceVisualization } from './components/SurfaceVisualization';
+import { RoundOptions } from './components/RoundOptions';
+import { VariogramControls, VariogramLimits } from './components/VariogramControls';
+import { WeightsInspector } from './components/WeightsInspector';
+import { LagControls } from './components/LagControls';
+import { VariogramMapPlot } from './components/VariogramMapPlot';
+import { DirectionalSeries, VariogramPlot, VariogramTarget } from './components/VariogramPlot';
+import { usePredictionQueue } from './hooks/usePredictionQueue';
+import { usePredictionWorker } from './hooks/usePredictionWorker';
+import { useSimulationWorker } from './hooks/useSimulationWorker';
+import {
+  LEVELS,
+  clearableLevel,
+  findLevel,
+  levelSettings,
+  loadClearedLevels,
+  markLevelCleared,
+} from './utils/campaign';
+import { leaveOneOut } from './utils/crossValidation';
+import { COLORMAPS, grayscale } from './utils/colormap';
+import { randomSeed } from './utils/random';
+import { Dataset, createDataset, unitExtent } from './utils/sampleImport';
+import {
+  Session,
+  SessionEvent,
+  appendEvent,
+  loadCurrentSession,
+  sessionSteps,
+  storeCurrentSession,
+  withTruthValues,
+} from './utils/session';
+import { RoundResult, listResults, recordResult, roundKey } from './utils/scoreHistory';
+import { SurfaceScore, calculateRMSE } from './utils/scoring';
+import { RealizationSummary } from './utils/simulation';
+import {
+  Estimator,
+  Neighborhood,
+  DEFAULT_LAGS,
+  LagSettings,
   Sample,
-  VariogramParams,
-  sphericalVariogram,
+  binVariogramCloud,
   calculateSemivariogram,
-  calculateRMSE,
+  createKrigingSystem,
+  fitVariogramParams,
+  krigingWeights,
   calculateStdDev,
-  kригingPrediction,
+  pairsInBin,
+  variogramCloud,
+  variogramMap,
 } from './utils/kriging';
+import { PredictionJob } from './workers/predictionProtocol';
 
 interface GameState {
-  trueSurface: number[][];
+  settings: RoundSettings;
+  /** Imported data in sandbox mode; null for a synthetic round */
+  dataset: Dataset | null;
+  width: number;
+  height: number;
+  /** Values mapped to the ends of the colormap */
+  valueRange: [number, number];
+  /** Hidden surface and model; null in sandbox mode */
+  trueSurface: number[][] | null;
+  hiddenParams: VariogramParams | null;
   samples: Sample[];
   clicksRemaining: number;
   params: VariogramParams;
   predictedSurface: number[][] | null;
+  varianceSurface: number[][] | null;
   gameOver: boolean;
   won: boolean;
-  rmse: number | null;
-  targetRmse: number;
+  /** Prediction against the truth; null until scored, and in sandbox mode */
+  score: SurfaceScore | null;
+  /** RMSE needed to win; null in sandbox mode */
+  targetRmse: number | null;
+  /** Epoch milliseconds when the round started */
+  startedAt: number;
+  initialParams: VariogramParams;
+  /** Samples and variogram changes, for saving and replay */
+  log: SessionEvent[];
+}
+
+interface SimulationState {
+  /** Realizations requested for the current run */
+  total: number;
+  realizations: number[][][];
+  /** Available once every realization is in */
+  summary: RealizationSummary | null;
 }
 
-const SURFACE_SIZE = 64;
-const MAX_CLICKS = 10;
-const RMSE_THRESHOLD = 0.15; // 15% of std dev
+const INITIAL_PARAMS: VariogramParams = {
+  nugget: 0.1,
+  structures: [{ model: 'spherical', sill: 50, range: 15 }],
+};
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [empiricalVariogram, setEmpiricalVariogram] = useState<
-    { distance: number; semivariance: number }[]
-  >([]);
-
-  // Initialize game
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [angleTolerance, setAngleTolerance] = useState(22.5);
+  const [lags, setLags] = useState<LagSettings>(DEFAULT_LAGS);
+  const [showCloud, setShowCloud] = useState(false);
+  const [hoveredLag, setHoveredLag] = useState<VariogramTarget | null>(null);
+  const [neighborhood, setNeighborhood] = useState<Neighborhood | null>(null);
+  const [estimator, setEstimator] = useState<Estimator>({ method: 'ordinary' });
+  const [showResiduals, setShowResiduals] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationState | null>(null);
+  const [simulationCount, setSimulationCount] = useState(25);
+  const [simulationView, setSimulationView] = useState<SimulationView>('realization');
+  const [realizationIndex, setRealizationIndex] = useState(0);
+  const [replay, setReplay] = useState<{ session: Session; step: number } | null>(null);
+  const [showTutorial, setShowTutorial] = useState(() => !hasSeenTutorial());
+  const [activeConcept, setActiveConcept] = useState<ConceptId | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [predictionError, setPredictionError] = useState<string | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number } | null>(null);
+  const [pinnedCell, setPinnedCell] = useState<{ x: number; y: number } | null>(null);
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_DISPLAY);
+  const [clearedLevels, setClearedLevels] = useState<string[]>(loadClearedLevels);
+  const [results, setResults] = useState<RoundResult[]>(listResults);
+
+  // Initialize game: resume the round left in progress, unless the URL
+  // carries a different shared round
   useEffect(() => {
-    startNewGame();
+    const shared = parseRoundSettings(window.location.search);
+    const current = loadCurrentSession();
+
+    if (
+      current &&
+      (!shared || formatRoundSettings(shared) === formatRoundSettings(current.settings))
+    ) {
+      startNewGame(current.settings, current);
+    } else {
+      startNewGame(shared ?? createRoundSettings());
+    }
   }, []);
 
-  // Update predictions when params change
+  const prediction = usePredictionWorker({
+    // Stream finished rows into the surfaces while the job runs
+    onProgress: progress => {
+      setGameState(prev =>
+        prev && {
+          ...prev,
+          predictedSurface: mergeRows(
+            prev.predictedSurface,
+            progress.height,
+            progress.rowStart,
+            progress.estimateRows
+          ),
+          varianceSurface: mergeRows(
+            prev.varianceSurface,
+            progress.height,
+            progress.rowStart,
+            progress.varianceRows
+          ),
+        }
+      );
+    },
+    onResult: result => {
+      setGameState(prev => {
+        if (!prev) return prev;
+
+        // The level's target is already a fraction of the truth's std dev
+        const reached =
+          result.score !== null &&
+          prev.targetRmse !== null &&
+          result.score.rmse <= prev.targetRmse;
+        return {
+          ...prev,
+          predictedSurface: result.estimate,
+          varianceSurface: result.variance,
+          score: result.score,
+          // The round ends on reaching the target, or on the prediction from
+          // the last sample; the outcome is then fixed
+          won: prev.gameOver ? prev.won : reached,
+          gameOver: prev.gameOver || reached || (!prev.dataset && prev.clicksRemaining === 0),
+        };
+      });
+    },
+    // Without the last sample's prediction, the round ends unscored
+    onError: message => {
+      setPredictionError(message);
+      setGameState(
+        prev =>
+          prev &&
+          (prev.dataset || prev.clicksRemaining > 0 ? prev : { ...prev, gameOver: true })
+      );
+    },
+  });
+
+  const simulator = useSimulationWorker({
+    onProgress: progress => {
+      setSimulation(prev =>
+        prev && { ...prev, realizations: [...prev.realizations, progress.realization] }
+      );
+    },
+    onResult: result => {
+      setSimulation(prev =>
+        prev && {
+          ...prev,
+          realizations: result.realizations,
+          summary: { mean: result.mean, p10: result.p10, p90: result.p90 },
+        }
+      );
+    },
+    // Drop the partial run so the controls stop waiting for it
+    onError: message => {
+      setSimulation(null);
+      setSimulationError(message);
+    },
+  });
+
+  // Winning a campaign round clears its level, which unlocks the next one
   useEffect(() => {
-    if (!gameState || gameState.samples.length === 0) return;
+    if (!gameState?.won) return;
 
-    const newPredicted = kригingPrediction(
-      SURFACE_SIZE,
-      SURFACE_SIZE,
-      gameState.samples,
-      gameState.params,
-      2 // Use step for performance
+    const level = clearableLevel(gameState.settings, clearedLevels);
+    if (level) setClearedLevels(markLevelCleared(level.id));
+  }, [gameState?.won, gameState?.settings]);
+
+  // A finished round goes into the score history once, as it stood when it
+  // ended; later model changes only explore the revealed truth
+  useEffect(() => {
+    if (!gameState?.gameOver || !gameState.score || !gameState.targetRmse) return;
+
+    const { settings, log, score } = gameState;
+    const id = `${settings.seed}-${gameState.startedAt}`;
+    if (results.some(result => result.player === null && result.id === id)) return;
+
+    setResults(
+      recordResult({
+        id,
+        round: roundKey(settings),
+        seed: settings.seed,
+        level: settings.level,
+        samplesUsed: gameState.samples.length,
+        rmse: score.rmse,
+        relativeRmse: score.rmse / gameState.targetRmse,
+        won: gameState.won,
+        params: gameState.params,
+        duration: log[log.length - 1]?.time ?? 0,
+        finishedAt: Date.now(),
+        player: null,
+      })
     );
+  }, [gameState?.gameOver, gameState?.score]);
 
-    const rmse = calculateRMSE(gameState.trueSurface, newPredicted);
-    const relativeRmse = rmse / gameState.targetRmse;
+  // Realizations belong to one set of samples and one model; drop them on change
+  useEffect(() => {
+    simulator.cancel();
+    setSimulation(null);
+    setSimulationError(null);
+  }, [gameState?.samples, gameState?.params, estimator]);
 
-    setGameState(prev => ({
-      ...prev!,
-      predictedSurface: newPredicted,
-      rmse: rmse,
-      won: relativeRmse <= RMSE_THRESHOLD && !prev!.gameOver,
-      gameOver: prev!.gameOver || relativeRmse <= RMSE_THRESHOLD,
+  // Update predictions when params change; a newer job supersedes a running one
+  useEffect(() => {
+    if (!gameState || gameState.samples.length === 0) return;
+
+    setPredictionError(null);
+    prediction.predict({
+      width: gameState.width,
+      height: gameState.height,
+      samples: gameState.samples,
+      params: gameState.params,
+      neighborhood,
+      estimator,
+      trueSurface: gameState.trueSurface,
+    });
+  }, [gameState?.samples, gameState?.params, neighborhood, estimator]);
+
+  // The round as a session; sandbox data cannot be rebuilt from a seed
+  const currentSession = useMemo<Session | null>(() => {
+    if (!gameState || gameState.dataset) return null;
+
+    return {
+      version: 1,
+      settings: gameState.settings,
+      startedAt: gameState.startedAt,
+      events: gameState.log,
+      initialParams: gameState.initialParams,
+    };
+  }, [gameState?.settings, gameState?.log, gameState?.dataset]);
+
+  // A sandbox has no session, and leaves the round in progress stored for later
+  useEffect(() => {
+    if (currentSession) storeCurrentSession(currentSession);
+  }, [currentSession]);
+
+  // Replay rebuilds the truth from the seed and re-scores each step with
+  // ordinary kriging over every sample
+  const replayTruth = useMemo(() => {
+    if (!replay) return null;
+
+    const { settings } = replay.session;
+    const { surface } = generateTruthSurface(settings.size, settings.size, settings.seed, {
+      model: settings.truthModel,
+      anisotropic: settings.anisotropic,
+      trend: settings.trend,
+      character: settings.character,
+    });
+    return {
+      surface,
+      targetRmse: calculateStdDev(surface) * settings.targetFraction,
+      // Shown in place of the truth before the first sample
+      hiddenBackdrop: surface.map(row => row.map(() => 50)),
+    };
+  }, [replay?.session]);
+
+  // Sample values come from the rebuilt truth rather than the stored log
+  const replaySteps = useMemo(() => {
+    if (!replay || !replayTruth) return [];
+    return sessionSteps(withTruthValues(replay.session, replayTruth.surface));
+  }, [replay?.session, replayTruth]);
+
+  const replayView = useMemo(() => {
+    if (!replay || !replayTruth) return null;
+
+    const current = replaySteps[replay.step];
+    return { ...current, empirical: calculateSemivariogram(current.samples, lags) };
+  }, [replay?.step, replaySteps, replayTruth, lags]);
+
+  // Each step is kriged on a worker of its own, so scrubbing stays responsive
+  const replayJobs = useMemo<PredictionJob[] | null>(() => {
+    if (!replay || !replayTruth || !replayView || replayView.samples.length === 0) return null;
+
+    const { size } = replay.session.settings;
+    return [
+      {
+        width: size,
+        height: size,
+        samples: replayView.samples,
+        params: replayView.params,
+        neighborhood: null,
+        estimator: { method: 'ordinary' },
+        trueSurface: replayTruth.surface,
+      },
+    ];
+  }, [replay?.session, replayTruth, replayView?.samples, replayView?.params]);
+  const replayPrediction = usePredictionQueue(replayJobs).results[0] ?? null;
+
+  // Every sample pair within the max lag, and the bins they average into
+  const variogramPairs = useMemo(
+    () => (gameState ? variogramCloud(gameState.samples, lags.maxLag) : []),
+    [gameState?.samples, lags.maxLag]
+  );
+  const empiricalVariogram = useMemo(
+    () => binVariogramCloud(variogramPairs, lags),
+    [variogramPairs, lags]
+  );
+
+  // Semivariance by lag direction as well as distance, on cells one lag wide
+  const lagMap = useMemo(() => {
+    if (!gameState) return null;
+
+    const reach = lags.maxLag ?? Math.max(gameState.width, gameState.height) / 2;
+    return variogramMap(variogramPairs, lags.width, reach);
+  }, [variogramPairs, lags, gameState?.width, gameState?.height]);
+
+  // The pairs behind the hovered semivariogram point, to trace on the map
+  const highlightedPairs = useMemo<SamplePair[] | undefined>(() => {
+    if (!gameState || !hoveredLag) return undefined;
+
+    const pairs =
+      hoveredLag.kind === 'pair'
+        ? [hoveredLag.pair]
+        : pairsInBin(variogramPairs, hoveredLag.point.distance, lags);
+    return pairs
+      .filter(pair => pair.j < gameState.samples.length)
+      .map(pair => ({ from: gameState.samples[pair.i], to: gameState.samples[pair.j] }));
+  }, [hoveredLag, variogramPairs, lags, gameState?.samples]);
+
+  // Directional semivariograms along the major and minor axes
+  const directionalVariograms = useMemo<DirectionalSeries[]>(() => {
+    if (!gameState || !isAnisotropic(gameState.params)) return [];
+
+    const geometry = gameState.params.structures.find(
+      structure => (structure.minorRange ?? structure.range) !== structure.range
+    );
+    const major = geometry?.azimuth ?? 0;
+
+    return [
+      { label: 'Major', azimuth: major, color: '#00897b' },
+      { label: 'Minor', azimuth: (major + 90) % 180, color: '#d81b60' },
+    ].map(series => ({
+      ...series,
+      points: calculateSemivariogram(gameState.samples, lags, {
+        azimuth: series.azimuth,
+        tolerance: angleTolerance,
+      }),
     }));
+  }, [gameState?.samples, gameState?.params, angleTolerance, lags]);
+
+  // Leave-one-out check of the current fit; needs no knowledge of the truth
+  const crossValidation = useMemo(() => {
+    if (!gameState || gameState.samples.length < 3) return null;
+
+    return leaveOneOut(gameState.samples, gameState.params, { neighborhood, estimator });
+  }, [gameState?.samples, gameState?.params, neighborhood, estimator]);
+
+  // Where the prediction misses: truth minus estimate, once the truth is on show
+  const residualMap = useMemo(() => {
+    const truth = gameState?.trueSurface;
+    const predicted = gameState?.predictedSurface;
+    if (!truth || !predicted || !(revealed || gameState.gameOver)) return null;
+
+    // Rows a running job has not streamed yet stay blank and out of the scale
+    const surface = truth.map((row, y) =>
+      row.map((value, x) => {
+        const estimate = predicted[y]?.[x];
+        return estimate !== undefined && Number.isFinite(estimate) ? value - estimate : NaN;
+      })
+    );
+    let limit = 1e-9;
+    for (const row of surface) {
+      for (const value of row) {
+        if (Math.abs(value) > limit) limit = Math.abs(value);
+      }
+    }
+    return { surface, valueRange: [-limit, limit] as [number, number] };
+  }, [gameState?.trueSurface, gameState?.predictedSurface, gameState?.gameOver, revealed]);
+
+  // Weights behind the estimate at the pinned cell, or else the hovered one
+  const inspectedCell = pinnedCell ?? hoveredCell;
+  // Factorized once per sample set and model; each cell is then a single solve
+  const inspectionSystem = useMemo(() => {
+    if (!gameState || gameState.samples.length === 0) return null;
+    return createKrigingSystem(gameState.samples, gameState.params, { neighborhood, estimator });
+  }, [gameState?.samples, gameState?.params, neighborhood, estimator]);
+  const inspectedWeights = useMemo(() => {
+    if (!inspectionSystem || !inspectedCell) return null;
+    return krigingWeights(inspectionSystem, inspectedCell.x, inspectedCell.y);
+  }, [inspectionSystem, inspectedCell?.x, inspectedCell?.y]);
+
+  // How the simulation summaries relate to kriging, and to the truth once revealed
+  const simulationComparison = useMemo(() => {
+    if (!gameState || !simulation?.summary || !gameState.predictedSurface) return [];
+
+    const { mean, p10, p90 } = simulation.summary;
+    const lower = p10.flat();
+    const upper = p90.flat();
+    const width = upper.reduce((sum, value, i) => sum + value - lower[i], 0) / upper.length;
+    const rows = [
+      { label: 'E-type vs kriged RMSE', value: calculateRMSE(gameState.predictedSurface, mean) },
+      { label: 'Mean P10–P90 width', value: width },
+    ];
+
+    if (gameState.gameOver && gameState.trueSurface) {
+      const trueSurface = gameState.trueSurface;
+      const realizationRmse =
+        simulation.realizations.reduce(
+          (sum, realization) => sum + calculateRMSE(trueSurface, realization),
+          0
+        ) / simulation.realizations.length;
+      rows.push(
+        {
+          label: 'Kriged vs truth RMSE',
+          value: calculateRMSE(trueSurface, gameState.predictedSurface),
+        },
+        { label: 'E-type vs truth RMSE', value: calculateRMSE(trueSurface, mean) },
+        { label: 'Realization vs truth RMSE (avg)', value: realizationRmse }
+      );
+    }
+    return rows;
+  }, [simulation, gameState?.predictedSurface, gameState?.gameOver]);
+
+  // Once the round ends, fit a model automatically on the same bins as the
+  // chart and the Fit button, so the comparison is like for like
+  const autoFitParams = useMemo(() => {
+    if (!gameState?.gameOver || !gameState.trueSurface || gameState.samples.length < 2) {
+      return null;
+    }
+    return fitVariogramParams(empiricalVariogram, gameState.params);
+  }, [gameState?.gameOver, gameState?.samples, gameState?.params, empiricalVariogram]);
+
+  const sampleMean =
+    gameState && gameState.samples.length > 0
+      ? gameState.samples.reduce((sum, sample) => sum + sample.z, 0) / gameState.samples.length
+      : null;
+
+  // Each estimator with the player's variogram, in the order of the table
+  const estimatorCandidates = useMemo<{ label: string; estimator: Estimator }[]>(() => {
+    if (!autoFitParams || sampleMean === null) return [];
+
+    return [
+      { label: 'Ordinary', estimator: { method: 'ordinary' } },
+      { label: 'Simple (sample mean)', estimator: { method: 'simple', mean: sampleMean } },
+      { label: 'Universal, linear', estimator: { method: 'universal', drift: 'linear' } },
+      { label: 'Universal, quadratic', estimator: { method: 'universal', drift: 'quadratic' } },
+    ];
+  }, [autoFitParams, sampleMean]);
+
+  // End-of-round comparisons, kriged one after another on a worker of their
+  // own: the auto-fit first, then each estimator
+  const reviewJobs = useMemo<PredictionJob[] | null>(() => {
+    if (!gameState || !autoFitParams) return null;
+
+    const { width, height, samples, params, trueSurface } = gameState;
+    const grid = { width, height, samples, neighborhood, trueSurface };
+    return [
+      { ...grid, params: autoFitParams, estimator },
+      ...estimatorCandidates.map(candidate => ({
+        ...grid,
+        params,
+        estimator: candidate.estimator,
+      })),
+    ];
+  }, [autoFitParams, estimatorCandidates, neighborhood, estimator]);
+  const review = usePredictionQueue(reviewJobs);
+
+  const autoFitResult = autoFitParams && {
+    params: autoFitParams,
+    rmse: review.results[0]?.score?.rmse ?? null,
+  };
+  const estimatorComparison = estimatorCandidates.map((candidate, i) => ({
+    label: candidate.label,
+    rmse: review.results[i + 1]?.score?.rmse ?? null,
+  }));
+
+  function runSimulation() {
+    if (!gameState) return;
 
-    // Update empirical variogram
-    const empirical = calculateSemivariogram(gameState.samples, 3);
-    setEmpiricalVariogram(empirical);
-  }, [gameState?.samples, gameState?.params]);
+    setSimulationError(null);
+    simulator.simulate({
+      width: gameState.width,
+      height: gameState.height,
+      samples: gameState.samples,
+      params: gameState.params,
+      realizations: simulationCount,
+      seed: randomSeed(),
+      mean: estimator.method === 'simple' ? estimator.mean : null,
+    });
+    setSimulation({ total: simulationCount, realizations: [], summary: null });
+    setSimulationView('realization');
+    setRealizationIndex(0);
+  }
 
-  function startNewGame() {
-    const trueSurface = generateSurface(SURFACE_SIZE, SURFACE_SIZE, Math.random() * 10000);
+  /**
+   * Start a round, or pick up a saved session where its log ends
+   */
+  function startNewGame(settings: RoundSettings, resumed: Session | null = null) {
+    const { surface: trueSurface, params: hiddenParams } = generateTruthSurface(
+      settings.size,
+      settings.size,
+      settings.seed,
+      {
+        model: settings.truthModel,
+        anisotropic: settings.anisotropic,
+        trend: settings.trend,
+        character: settings.character,
+      }
+    );
     const stdDev = calculateStdDev(trueSurface);
-    const targetRmse = stdDev * 0.15;
+    const targetRmse = stdDev * settings.targetFraction;
+
+    // Drop any prediction still running for the previous round
+    prediction.cancel();
+
+    // Keep the URL in sync so the round can be shared
+    window.history.replaceState(null, '', formatRoundSettings(settings));
+
+    // Samples are measured again on the rebuilt truth
+    const session = resumed && withTruthValues(resumed, trueSurface);
+    const initialParams = session?.initialParams ?? INITIAL_PARAMS;
+    const final = session ? sessionSteps(session)[session.events.length] : null;
+    const samples = final?.samples ?? [];
 
     setGameState({
+      settings,
+      dataset: null,
+      width: settings.size,
+      height: settings.size,
+      valueRange: [0, 100],
       trueSurface,
-      samples: [],
-      clicksRemaining: MAX_CLICKS,
-      params: { nugget: 0.1, sill: 50, range: 15 },
+      hiddenParams,
+      samples,
+      clicksRemaining: Math.max(settings.maxClicks - samples.length, 0),
+      params: final?.params ?? initialParams,
       predictedSurface: null,
+      varianceSurface: null,
+      // Settled again by the prediction from the resumed samples
       gameOver: false,
       won: false,
-      rmse: null,
+      score: null,
       targetRmse,
+      startedAt: session?.startedAt ?? Date.now(),
+      initialParams,
+      log: session?.events ?? [],
     });
 
-    setEmpiricalVariogram([]);
+    setLinkCopied(false);
+    setRevealed(false);
+    setPinnedCell(null);
+    setHoveredLag(null);
+  }
+
+  function startSandbox(name: string, samples: Sample[]) {
+    const dataset = createDataset(name, samples);
+
+    prediction.cancel();
+
+    // A sandbox is not reproducible from the URL
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const params: VariogramParams = {
+      nugget: 0,
+      structures: [
+        {
+          model: 'spherical',
+          sill: sampleVariance(dataset.samples) || 1,
+          range: Math.max(dataset.extent.width, dataset.extent.height) / 4,
+        },
+      ],
+    };
+
+    setGameState(prev => ({
+      settings: prev?.settings ?? createRoundSettings(),
+      dataset,
+      width: dataset.extent.width,
+      height: dataset.extent.height,
+      valueRange: dataset.valueRange,
+      trueSurface: null,
+      hiddenParams: null,
+      samples: dataset.samples,
+      clicksRemaining: 0,
+      params,
+      predictedSurface: null,
+      varianceSurface: null,
+      gameOver: false,
+      won: false,
+      score: null,
+      targetRmse: null,
+      startedAt: Date.now(),
+      initialParams: params,
+      log: [],
+    }));
+
+    setPinnedCell(null);
+    setHoveredLag(null);
+  }
+
+  function copyShareLink() {
+    if (!gameState) return;
+
+    navigator.clipboard
+      .writeText(buildShareUrl(gameState.settings, window.location))
+      .then(() => setLinkCopied(true))
+      .catch(() => setLinkCopied(false));
   }
 
   function handleSurfaceClick(x: number, y: number) {
-    if (!gameState || gameState.gameOver || gameState.clicksRemaining <= 0) return;
+    if (!gameState?.trueSurface || gameState.gameOver || gameState.clicksRemaining <= 0) return;
 
-    const xi = Math.round(x * SURFACE_SIZE);
-    const yi = Math.round(y * SURFACE_SIZE);
+    const xi = Math.floor(x * gameState.width);
+    const yi = Math.floor(y * gameState.height);
 
-    if (xi < 0 || xi >= SURFACE_SIZE || yi < 0 || yi >= SURFACE_SIZE) return;
+    if (xi < 0 || xi >= gameState.width || yi < 0 || yi >= gameState.height) return;
 
     // Check if already sampled
     if (gameState.samples.some(s => s.x === xi && s.y === yi)) return;
 
-    const trueValue = gameState.trueSurface[yi][xi];
+    const sample = { x: xi, y: yi, z: gameState.trueSurface[yi][xi] };
 
     setGameState(prev => ({
       ...prev!,
-      samples: [...prev!.samples, { x: xi, y: yi, z: trueValue }],
+      samples: [...prev!.samples, sample],
+      log: appendEvent(prev!.log, {
+        type: 'sample',
+        time: Date.now() - prev!.startedAt,
+        sample,
+      }),
+      // The round ends once this sample's prediction is scored
       clicksRemaining: prev!.clicksRemaining - 1,
-      gameOver:
-        prev!.clicksRemaining - 1 === 0 && !prev!.won,
     }));
   }
 
-  function updateParam(param: keyof VariogramParams, value: number) {
+  function togglePinnedCell(x: number, y: number) {
+    if (!gameState) return;
+
+    const cell = {
+      x: Math.min(Math.floor(x * gameState.width), gameState.width - 1),
+      y: Math.min(Math.floor(y * gameState.height), gameState.height - 1),
+    };
+    setPinnedCell(prev => (prev && prev.x === cell.x && prev.y === cell.y ? null : cell));
+  }
+
+  function autoFit() {
+    if (!gameState) return;
+
+    updateParams(fitVariogramParams(empiricalVariogram, gameState.params));
+  }
+
+  function updateParams(params: VariogramParams) {
     if (!gameState) return;
 
     setGameState(prev => ({
       ...prev!,
-      params: { ...prev!.params, [param]: value },
+      params,
+      log: appendEvent(prev!.log, {
+        type: 'params',
+        time: Date.now() - prev!.startedAt,
+        params,
+      }),
     }));
   }
 
   if (!gameState) return <div className="loading">Loading...</div>;
 
-  const relativeRmse = gameState.rmse ? gameState.rmse / gameState.targetRmse : Infinity;
+  const simulatedSurface = !simulation
+    ? null
+    : simulationView === 'realization'
+    ? simulation.realizations[Math.min(realizationIndex, simulation.realizations.length - 1)]
+    : simulation.summary?.[simulationView === 'etype' ? 'mean' : simulationView];
+
+  const rmse = gameState.score?.rmse ?? null;
+  const relativeRmse = rmse && gameState.targetRmse ? rmse / gameState.targetRmse : Infinity;
+
+  const { dataset, trueSurface, hiddenParams, targetRmse } = gameState;
+
+  const currentLevel = findLevel(gameState.settings.level);
+  const nextLevel =
+    gameState.won && currentLevel && clearedLevels.includes(currentLevel.id)
+      ? LEVELS[LEVELS.indexOf(currentLevel) + 1] ?? null
+      : null;
+
+  // Shared by every map; the extent turns hover readouts into world coordinates
+  const rasterStyle = {
+    colormap: COLORMAPS[display.colormap].colormap,
+    sampling: display.sampling,
+    contours: display.contours,
+    extent: dataset?.extent,
+  };
+
+  // Until the round ends, the truth hides behind the prediction in grey
+  const truthVisible = revealed || gameState.gameOver;
+  // A replayed round keeps its truth hidden until it is over, or revealed in play
+  const replayTruthVisible =
+    replay !== null &&
+    (results.some(
+      result =>
+        result.player === null &&
+        result.id === `${replay.session.settings.seed}-${replay.session.startedAt}`
+    ) ||
+      (replay.session.startedAt === gameState.startedAt && truthVisible));
+
+  const samplingBackdrop =
+    gameState.predictedSurface ??
+    Array.from({ length: gameState.height }, () => new Array(gameState.width).fill(50));
+
+  // RMSE compares the two surfaces, so its explainer outlines both
+  const rmseHighlight = activeConcept === 'rmse' ? ' highlighted' : '';
 
   return (
     <div className="app">
       <header className="header">
         <h1>Weighted Neighbors</h1>
         <p>Learn kriging interpolation through interactive gameplay</p>
+        <button className="btn btn-small help-button" onClick={() => setShowTutorial(true)}>
+          Help
+        </button>
       </header>
 
-      <div className="main-container">
-        <div className="game-panel">
-          <div className="status">
-            <div className="status-item">
-              <span className="label">Samples Taken:</span>
-              <span className="value">{gameState.samples.length}/{MAX_CLICKS}</span>
-            </div>
-            <div className="status-item">
-              <span className="label">Current RMSE:</span>
-              <span className="value">
-                {gameState.rmse !== null ? gameState.rmse.toFixed(2) : '—'}
-              </span>
-            </div>
-            <div className="status-item">
-              <span className="label">Target RMSE:</span>
-              <span className="value">{gameState.targetRmse.toFixed(2)}</span>
-            </div>
-            <div className="status-item">
-              <span className="label">Progress:</span>
-              <span className="value">
-                {(Math.min(relativeRmse, 1) * 100).toFixed(0)}%
-              </span>
-            </div>
-          </div>
+      {showTutorial && (
+        <Tutorial
+          maxClicks={gameState.settings.maxClicks}
+          onClose={() => setShowTutorial(false)}
+        />
+      )}
+
+      <ExplainerContext.Provider value={{ active: activeConcept, setActive: setActiveConcept }}>
+        <div className="main-container">
+          <div className="game-panel">
+            {dataset ? (
+              <div className="status">
+                <div className="status-item">
+                  <span className="label">Dataset:</span>
+                  <span className="value">{dataset.name}</span>
+                </div>
+                <div className="status-item">
+                  <span className="label">Samples:</span>
+                  <span className="value">{dataset.samples.length}</span>
+                </div>
+                <div className="status-item">
+                  <span className="label">Grid:</span>
+                  <span className="value">
+                    {dataset.extent.width}×{dataset.extent.height}
+                  </span>
+                </div>
+                <div className="status-item">
+                  <span className="label">Cell Size:</span>
+                  <span className="value">{dataset.extent.cellSize.toPrecision(3)}</span>
+                </div>
+              </div>
+            ) : (
+              <div className="status">
+                <div className="status-item">
+                  <span className="label">Samples Taken:</span>
+                  <span className="value">
+                    {gameState.samples.length}/{gameState.settings.maxClicks}
+                  </span>
+                </div>
+                <div className={`status-item${rmseHighlight}`}>
+                  <span className="label">
+                    Current RMSE: <ConceptHint concept="rmse" />
+                  </span>
+                  <span className="value">
+                    {rmse !== null ? rmse.toFixed(2) : '—'}
+                  </span>
+                </div>
+                <div className="status-item">
+                  <span className="label">Target RMSE:</span>
+                  <span className="value">{targetRmse?.toFixed(2)}</span>
+                </div>
+                <div className="status-item">
+                  <span className="label">Progress:</span>
+                  <span className="value">
+                    {(Math.min(1 / relativeRmse, 1) * 100).toFixed(0)}%
+                  </span>
+                </div>
+                {gameState.score && (
+                  <>
+                    <div className="status-item">
+                      <span className="label">MAE:</span>
+                      <span className="value">{gameState.score.mae.toFixed(2)}</span>
+                    </div>
+                    <div className="status-item">
+                      <span className="label">Bias:</span>
+                      <span className="value">
+                        {gameState.score.bias >= 0 ? '+' : ''}
+                        {gameState.score.bias.toFixed(2)}
+                      </span>
+                    </div>
+                    <div className="status-item">
+                      <span className="label">R²:</span>
+                      <span className="value">{gameState.score.r2.toFixed(3)}</span>
+                    </div>
+                    <ErrorDistribution histogram={gameState.score.errors} />
+                  </>
+                )}
+              </div>
+            )}
 
-          {gameState.gameOver && (
-            <div className={`game-result ${gameState.won ? 'won' : 'lost'}`}>
-              {gameState.won ? (
-                <>
-                  <h2>Success!</h2>
-                  <p>You successfully fitted the kriging model!</p>
-                  <p>Final RMSE: {gameState.rmse?.toFixed(2)}</p>
-                </>
-              ) : (
-                <>
-                  <h2>Game Over</h2>
-                  <p>You ran out of samples. Keep trying!</p>
-                  <p>
-                    Final RMSE: {gameState.rmse?.toFixed(2)} (needed{' '}
-                    {gameState.targetRmse.toFixed(2)})
-                  </p>
-                </>
-              )}
-              <button className="btn" onClick={startNewGame}>
-                Play Again
-              </button>
-            </div>
-          )}
-
-          <div className="controls">
-            <h3>Variogram Parameters</h3>
-
-            <div className="control-group">
-              <label>
-                Nugget: {gameState.params.nugget.toFixed(2)}
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="50"
-                step="0.5"
-                value={gameState.params.nugget}
-                onChange={e =>
-                  updateParam('nugget', parseFloat(e.target.value))
-                }
-              />
-            </div>
+            {!dataset && (
+              <div className="round-info">
+                <span className="label">Seed:</span>
+                <span className="value">{gameState.settings.seed}</span>
+                <button className="btn btn-small" onClick={copyShareLink}>
+                  {linkCopied ? 'Link Copied' : 'Copy Share Link'}
+                </button>
+              </div>
+            )}
 
-            <div className="control-group">
-              <label>
-                Sill: {gameState.params.sill.toFixed(2)}
-              </label>
-              <input
-                type="range"
-                min="10"
-                max="200"
-                step="1"
-                value={gameState.params.sill}
-                onChange={e =>
-                  updateParam('sill', parseFloat(e.target.value))
-                }
-              />
-            </div>
+            <CampaignPanel
+              currentLevel={dataset ? null : gameState.settings.level}
+              cleared={clearedLevels}
+              onPlay={level => startNewGame(levelSettings(level))}
+            />
 
-            <div className="control-group">
-              <label>
-                Range: {gameState.params.range.toFixed(2)}
-              </label>
-              <input
-                type="range"
-                min="1"
-                max="50"
-                step="0.5"
-                value={gameState.params.range}
-                onChange={e =>
-                  updateParam('range', parseFloat(e.target.value))
-                }
-              />
-            </div>
-          </div>
+            <RoundOptions
+              settings={gameState.settings}
+              onStart={options => startNewGame(createRoundSettings(options))}
+            />
 
-          <div className="instructions">
-            <h3>How to Play</h3>
-            <ol>
-              <li>Click on the surface map to sample points (max 10)</li>
-              <li>Adjust the variogram parameters using the sliders</li>
-              <li>Watch the semivariogram update with your samples</li>
-              <li>Fit your model to achieve RMSE ≤ 15% of target</li>
-              <li>The prediction surface updates in real-time</li>
-            </ol>
-          </div>
-        </div>
+            {gameState.gameOver && hiddenParams && (
+              <div className={`game-result ${gameState.won ? 'won' : 'lost'}`}>
+                {gameState.won ? (
+                  <>
+                    <h2>Success!</h2>
+                    <p>You successfully fitted the kriging model!</p>
+                    <p>Final RMSE: {rmse?.toFixed(2)}</p>
+                  </>
+                ) : (
+                  <>
+                    <h2>Game Over</h2>
+                    <p>You ran out of samples. Keep trying!</p>
+                    <p>
+                      Final RMSE: {rmse?.toFixed(2)} (needed{' '}
+                      {targetRmse?.toFixed(2)})
+                    </p>
+                  </>
+                )}
+                <ParamComparison
+                  columns={[
+                    { title: 'Yours', params: gameState.params, rmse },
+                    ...(autoFitResult
+                      ? [
+                          {
+                            title: 'Auto-fit',
+                            params: autoFitResult.params,
+                            rmse: autoFitResult.rmse,
+                          },
+                        ]
+                      : []),
+                    { title: 'Hidden', params: hiddenParams },
+                  ]}
+                />
+                {review.error && <p className="error-message">{review.error}</p>}
+                {estimatorComparison.length > 0 && (
+                  <table className="param-comparison">
+                    <thead>
+                      <tr>
+                        <th>Estimator</th>
+                        <th>RMSE</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {estimatorComparison.map(row => (
+                        <tr key={row.label}>
+                          <td>{row.label}</td>
+                          <td>{row.rmse?.toFixed(2) ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {nextLevel && (
+                  <button className="btn" onClick={() => startNewGame(levelSettings(nextLevel))}>
+                    Next Level: {nextLevel.title}
+                  </button>
+                )}
+                <button
+                  className="btn"
+                  onClick={() => startNewGame(withNewSeed(gameState.settings))}
+                >
+                  Play Again
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => startNewGame(gameState.settings)}
+                >
+                  Retry This Surface
+                </button>
+              </div>
+            )}
+
+            <VariogramControls
+              params={gameState.params}
+              onChange={updateParams}
+              onAutoFit={empiricalVariogram.length > 0 ? autoFit : undefined}
+              limits={dataset ? sandboxLimits(dataset) : undefined}
+            />
+
+            <EstimatorControls
+              estimator={estimator}
+              sampleMean={sampleMean}
+              valueRange={gameState.valueRange}
+              onChange={setEstimator}
+            />
+
+            <NeighborhoodControls neighborhood={neighborhood} onChange={setNeighborhood} />
 
-        <div className="visualization-panel">
-          <div className="chart-container">
-            <h3>True Surface (Samples: {gameState.samples.length})</h3>
-            <SurfaceVisualization
-              surface={gameState.trueSurface}
+            <DisplayControls display={display} onChange={setDisplay} />
+
+            <SandboxImport onLoad={startSandbox} />
+
+            <SessionControls
+              session={currentSession}
+              onResume={session => startNewGame(session.settings, session)}
+              onReplay={session => setReplay({ session, step: 0 })}
+            />
+
+            <ExportControls
+              basename={
+                dataset
+                  ? dataset.name.replace(/\.[^.]*$/, '')
+                  : `round-${gameState.settings.seed}`
+              }
+              extent={dataset?.extent ?? unitExtent(gameState.width, gameState.height)}
+              predicted={gameState.predictedSurface}
+              variance={gameState.varianceSurface}
               samples={gameState.samples}
-              onClick={handleSurfaceClick}
+              params={gameState.params}
+              valueRange={gameState.valueRange}
+              colormap={rasterStyle.colormap}
             />
+
+            <div className="instructions">
+              <h3>How to Play</h3>
+              {dataset ? (
+                <ol>
+                  <li>Load a CSV or GeoJSON file of sample points</li>
+                  <li>Fit the variogram to the experimental semivariogram</li>
+                  <li>Judge the fit with cross-validation; there is no hidden truth</li>
+                  <li>Start a new round to return to the game</li>
+                </ol>
+              ) : (
+                <ol>
+                  <li>
+                    Click on the surface map to sample points (max{' '}
+                    {gameState.settings.maxClicks})
+                  </li>
+                  <li>Adjust the variogram parameters using the sliders</li>
+                  <li>Watch the semivariogram update with your samples</li>
+                  <li>Fit your model to achieve RMSE ≤ 15% of target</li>
+                  <li>The prediction surface updates in real-time</li>
+                </ol>
+              )}
+            </div>
           </div>
 
-          <div className="chart-container">
-            <h3>Predicted Surface</h3>
-            {gameState.predictedSurface ? (
-              <SurfaceVisualization
-                surface={gameState.predictedSurface}
-                samples={[]}
-              />
-            ) : (
-              <div className="placeholder">No prediction yet. Sample some points!</div>
+          <div className="visualization-panel">
+            {replay && replayTruth && replayView && (
+              <div className="chart-container">
+                <h3>Replay: Seed {replay.session.settings.seed}</h3>
+                <ReplayControls
+                  steps={replaySteps}
+                  events={replay.session.events}
+                  step={replay.step}
+                  onStepChange={step => setReplay(prev => prev && { ...prev, step })}
+                  rmse={replayPrediction?.score?.rmse ?? null}
+                  targetRmse={replayTruth.targetRmse}
+                  onClose={() => setReplay(null)}
+                />
+                {replayTruthVisible ? (
+                  <SurfaceVisualization
+                    {...rasterStyle}
+                    surface={replayTruth.surface}
+                    samples={replayView.samples}
+                    colorbarLabel="true value"
+                  />
+                ) : (
+                  <SurfaceVisualization
+                    {...rasterStyle}
+                    surface={replayPrediction?.estimate ?? replayTruth.hiddenBackdrop}
+                    samples={replayView.samples}
+                    valueRange={[0, 100]}
+                    colormap={grayscale}
+                    colorbarLabel="prediction at this step (truth hidden)"
+                    labelSamples
+                  />
+                )}
+                {replayView.empirical.length > 0 && (
+                  <VariogramPlot
+                    empirical={replayView.empirical}
+                    params={replayView.params}
+                    lagWidth={lags.width}
+                  />
+                )}
+              </div>
             )}
-          </div>
 
-          {empiricalVariogram.length > 0 && (
-            <div className="chart-container">
-              <h3>Semivariogram</h3>
-              <VariogramPlot
-                empirical={empiricalVariogram}
-                params={gameState.params}
-              />
+            {trueSurface && (
+              <div className={`chart-container${rmseHighlight}`}>
+                <div className="chart-heading">
+                  <h3>
+                    {truthVisible ? 'True Surface' : 'Sampling Canvas'} (Samples:{' '}
+                    {gameState.samples.length})
+                  </h3>
+                  {!gameState.gameOver && (
+                    <button className="btn btn-small" onClick={() => setRevealed(!revealed)}>
+                      {revealed ? 'Hide Truth' : 'Reveal Truth'}
+                    </button>
+                  )}
+                </div>
+                <SurfaceVisualization
+                  {...rasterStyle}
+                  surface={truthVisible ? trueSurface : samplingBackdrop}
+                  valueRange={gameState.valueRange}
+                  colormap={truthVisible ? rasterStyle.colormap : grayscale}
+                  colorbarLabel={truthVisible ? 'true value' : 'current prediction'}
+                  labelSamples={!truthVisible}
+                  samples={gameState.samples}
+                  residuals={showResiduals ? crossValidation?.residuals : undefined}
+                  pairs={highlightedPairs}
+                  onClick={handleSurfaceClick}
+                />
+              </div>
+            )}
+
+            <div className={`chart-container${rmseHighlight}`}>
+              <h3>Predicted Surface</h3>
+              {predictionError && (
+                <p className="error-message">Prediction failed: {predictionError}</p>
+              )}
+              {gameState.predictedSurface ? (
+                <SurfaceVisualization
+                  {...rasterStyle}
+                  surface={gameState.predictedSurface}
+                  // Without a truth map, the samples are shown over the prediction
+                  samples={dataset ? gameState.samples : []}
+                  valueRange={gameState.valueRange}
+                  residuals={dataset && showResiduals ? crossValidation?.residuals : undefined}
+                  pairs={dataset ? highlightedPairs : undefined}
+                  colorbarLabel="kriged estimate"
+                  weights={
+                    inspectedCell && inspectedWeights
+                      ? { ...inspectedCell, weights: inspectedWeights.weights }
+                      : null
+                  }
+                  onHover={setHoveredCell}
+                  onClick={togglePinnedCell}
+                />
+              ) : (
+                <div className="placeholder">No prediction yet. Sample some points!</div>
+              )}
             </div>
-          )}
-        </div>
-      </div>
-    </div>
-  );
-}
 
-interface SurfaceVisualizationProps {
-  surface: number[][];
-  samples: Sample[];
-  onClick?: (x: number, y: number) => void;
-}
+            {gameState.predictedSurface && (
+              <div className="chart-container">
+                <h3>Kriging Weights</h3>
+                {inspectedCell && inspectedWeights ? (
+                  <WeightsInspector
+                    x={inspectedCell.x}
+                    y={inspectedCell.y}
+                    result={inspectedWeights}
+                    pinned={pinnedCell !== null}
+                    onUnpin={() => setPinnedCell(null)}
+                  />
+                ) : (
+                  <div className="placeholder">
+                    Hover over the predicted surface to see how each sample is weighted; click to
+                    pin a point.
+                  </div>
+                )}
+              </div>
+            )}
 
-function SurfaceVisualization({
-  surface,
-  samples,
-  onClick,
-}: SurfaceVisualizationProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+            {gameState.varianceSurface && (
+              <div className="chart-container">
+                <h3>Kriging Variance</h3>
+                <SurfaceVisualization
+                  {...rasterStyle}
+                  surface={gameState.varianceSurface}
+                  samples={[]}
+                  valueRange={[0, totalSill(gameState.params)]}
+                  colorbarLabel="variance (higher = more uncertain)"
+                />
+              </div>
+            )}
 
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-
-    // Draw heatmap
-    const pixelData = ctx.createImageData(width, height);
-    const data = pixelData.data;
-
-    for (let y = 0; y < Math.min(surface.length, height); y++) {
-      for (let x = 0; x < Math.min(surface[y]?.length ?? 0, width); x++) {
-        const value = surface[y][x];
-        const idx = (y * width + x) * 4;
-
-        // Viridis colormap
-        const color = valueToColor(value / 100);
-        data[idx] = color.r;
-        data[idx + 1] = color.g;
-        data[idx + 2] = color.b;
-        data[idx + 3] = 255;
-      }
-    }
+            {residualMap && (
+              <div className="chart-container">
+                <h3>Residual: Truth − Prediction</h3>
+                <SurfaceVisualization
+                  {...rasterStyle}
+                  surface={residualMap.surface}
+                  samples={gameState.samples}
+                  valueRange={residualMap.valueRange}
+                  colormap={COLORMAPS[display.divergingColormap].colormap}
+                  colorbarLabel="above zero: prediction too low"
+                />
+              </div>
+            )}
 
-    ctx.putImageData(pixelData, 0, 0);
-
-    // Draw samples
-    for (const sample of samples) {
-      const x = (sample.x / SURFACE_SIZE) * width;
-      const y = (sample.y / SURFACE_SIZE) * height;
-
-      ctx.strokeStyle = 'red';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(x - 5, y - 5);
-      ctx.lineTo(x + 5, y + 5);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(x + 5, y - 5);
-      ctx.lineTo(x - 5, y + 5);
-      ctx.stroke();
-    }
-  }, [surface, samples]);
+            {gameState.samples.length > 0 && (
+              <div className="chart-container">
+                <h3>Conditional Simulation</h3>
+                <SimulationControls
+                  count={simulationCount}
+                  onCountChange={setSimulationCount}
+                  onSimulate={runSimulation}
+                  completed={simulation?.realizations.length ?? 0}
+                  total={simulation?.total ?? 0}
+                  view={simulationView}
+                  onViewChange={setSimulationView}
+                  realizationIndex={realizationIndex}
+                  onRealizationIndexChange={setRealizationIndex}
+                  comparison={simulationComparison}
+                  unavailable={
+                    hasSill(gameState.params)
+                      ? null
+                      : 'Simulation needs a variogram with a sill, which the power model lacks'
+                  }
+                />
+                {simulationError && (
+                  <p className="error-message">Simulation failed: {simulationError}</p>
+                )}
+                {simulatedSurface ? (
+                  <SurfaceVisualization
+                    {...rasterStyle}
+                    surface={simulatedSurface}
+                    samples={gameState.samples}
+                    valueRange={gameState.valueRange}
+                    colorbarLabel="simulated value"
+                  />
+                ) : (
+                  <div className="placeholder">
+                    Simulate to see realizations conditioned on your samples.
+                  </div>
+                )}
+              </div>
+            )}
 
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!onClick || !canvasRef.current) return;
+            {crossValidation && (
+              <div className="chart-container">
+                <h3>Leave-One-Out Cross-Validation</h3>
+                <CrossValidationPanel
+                  result={crossValidation}
+                  showResiduals={showResiduals}
+                  onShowResidualsChange={setShowResiduals}
+                />
+              </div>
+            )}
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
-    const y = (e.clientY - rect.top) / rect.height;
+            {gameState.samples.length > 1 && (
+              <div className="chart-container">
+                <h3>
+                  Semivariogram <ConceptHint concept="bins" />
+                </h3>
+                <VariogramPlot
+                  empirical={empiricalVariogram}
+                  directional={directionalVariograms}
+                  params={gameState.params}
+                  highlight={activeConcept}
+                  lagWidth={lags.width}
+                  cloud={showCloud ? variogramPairs : null}
+                  onHover={setHoveredLag}
+                />
+                <LagControls
+                  lags={lags}
+                  onChange={setLags}
+                  maxDistance={Math.hypot(gameState.width, gameState.height)}
+                  showCloud={showCloud}
+                  onShowCloudChange={setShowCloud}
+                />
+                {directionalVariograms.length > 0 && (
+                  <div className="control-group chart-control">
+                    <label>Angle Tolerance: ±{angleTolerance.toFixed(1)}°</label>
+                    <input
+                      type="range"
+                      min="5"
+                      max="45"
+                      step="2.5"
+                      value={angleTolerance}
+                      onChange={e => setAngleTolerance(parseFloat(e.target.value))}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
 
-    onClick(x, y);
-  };
+            {lagMap && gameState.samples.length > 1 && (
+              <div className="chart-container">
+                <h3>Variogram Map</h3>
+                <VariogramMapPlot
+                  map={lagMap}
+                  params={gameState.params}
+                  colormap={rasterStyle.colormap}
+                  sampling={rasterStyle.sampling}
+                  contours={rasterStyle.contours}
+                />
+              </div>
+            )}
 
-  return (
-    <canvas
-      ref={canvasRef}
-      width={400}
-      height={400}
-      onClick={handleClick}
-      style={{ border: '1px solid #ccc', cursor: onClick ? 'crosshair' : 'default' }}
-    />
+            <div className="chart-container">
+              <h3>Score History</h3>
+              <ScoreHistory
+                results={results}
+                currentRound={dataset ? null : roundKey(gameState.settings)}
+                onResultsChange={setResults}
+                winRatio={1}
+              />
+            </div>
+          </div>
+        </div>
+      </ExplainerContext.Provider>
+    </div>
   );
 }
 
-function valueToColor(t: number): { r: number; g: number; b: number } {
-  // Viridis colormap
-  const colors = [
-    { r: 68, g: 1, b: 84 },
-    { r: 71, g: 16, b: 99 },
-    { r: 70, g: 33, b: 102 },
-    { r: 68, g: 51, b: 101 },
-    { r: 64, g: 69, b: 97 },
-    { r: 57, g: 87, b: 100 },
-    { r: 48, g: 104, b: 107 },
-    { r: 37, g: 121, b: 110 },
-    { r: 26, g: 137, b: 110 },
-    { r: 16, g: 154, b: 108 },
-    { r: 13, g: 170, b: 102 },
-    { r: 27, g: 186, b: 91 },
-    { r: 49, g: 202, b: 75 },
-    { r: 77, g: 216, b: 54 },
-    { r: 115, g: 228, b: 29 },
-    { r: 163, g: 238, b: 9 },
-    { r: 216, g: 244, b: 20 },
-    { r: 254, g: 246, b: 52 },
-  ];
-
-  const idx = Math.min(colors.length - 2, Math.floor(t * (colors.length - 1)));
-  const a = colors[idx];
-  const b = colors[idx + 1];
-  const frac = t * (colors.length - 1) - idx;
+/**
+ * Slider limits for imported data, from the sample variance and grid size
+ */
+function sandboxLimits(dataset: Dataset): VariogramLimits {
+  const variance = sampleVariance(dataset.samples);
+  const magnitude = 10 ** Math.floor(Math.log10(2 * variance || 1));
 
   return {
-    r: Math.round(a.r + (b.r - a.r) * frac),
-    g: Math.round(a.g + (b.g - a.g) * frac),
-    b: Math.round(a.b + (b.b - a.b) * frac),
+    sill: Math.ceil((2 * variance || 1) / magnitude) * magnitude,
+    range: Math.ceil(Math.hypot(dataset.extent.width, dataset.extent.height)),
   };
 }
 
-interface VariogramPlotProps {
-  empirical: { distance: number; semivariance: number }[];
-  params: VariogramParams;
+function sampleVariance(samples: Sample[]): number {
+  const mean = samples.reduce((sum, sample) => sum + sample.z, 0) / samples.length;
+  return samples.reduce((sum, sample) => sum + (sample.z - mean) ** 2, 0) / samples.length;
 }
 
-function VariogramPlot({ empirical, params }: VariogramPlotProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current || empirical.length === 0) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const width = canvas.width;
-    const height = canvas.height;
-    const padding = 40;
-
-    // Clear
-    ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, width, height);
-
-    // Calculate bounds
-    const maxDistance = Math.max(...empirical.map(e => e.distance), params.range * 1.5);
-    const maxSemivariance = Math.max(...empirical.map(e => e.semivariance), params.sill * 1.2);
-
-    const plotWidth = width - padding * 2;
-    const plotHeight = height - padding * 2;
-
-    // Draw axes
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.moveTo(padding, height - padding);
-    ctx.lineTo(width - padding, height - padding);
-    ctx.lineTo(width - padding, padding);
-    ctx.stroke();
-
-    // Draw labels
-    ctx.fillStyle = '#000';
-    ctx.font = '12px Arial';
-    ctx.textAlign = 'center';
-    ctx.fillText('Distance', width / 2, height - 10);
-    ctx.save();
-    ctx.translate(15, height / 2);
-    ctx.rotate(-Math.PI / 2);
-    ctx.fillText('Semivariance', 0, 0);
-    ctx.restore();
-
-    // Helper to convert data coords to canvas coords
-    const toCanvasX = (d: number) => padding + (d / maxDistance) * plotWidth;
-    const toCanvasY = (s: number) => height - padding - (s / maxSemivariance) * plotHeight;
-
-    // Draw empirical points
-    ctx.fillStyle = 'blue';
-    for (const point of empirical) {
-      const x = toCanvasX(point.distance);
-      const y = toCanvasY(point.semivariance);
-      ctx.beginPath();
-      ctx.arc(x, y, 4, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Draw model curve
-    ctx.strokeStyle = 'red';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-
-    for (let i = 0; i <= 100; i++) {
-      const distance = (i / 100) * maxDistance;
-      const semivariance = sphericalVariogram(distance, params);
-      const x = toCanvasX(distance);
-      const y = toCanvasY(semivariance);
-
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
-    }
-
-    ctx.stroke();
-
-    // Draw legend
-    ctx.fillStyle = 'blue';
-    ctx.fillRect(width - 120, 10, 10, 10);
-    ctx.fillStyle = '#000';
-    ctx.font = '12px Arial';
-    ctx.textAlign = 'left';
-    ctx.fillText('Empirical', width - 105, 18);
-
-    ctx.strokeStyle = 'red';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(width - 120, 35);
-    ctx.lineTo(width - 105, 35);
-    ctx.stroke();
-    ctx.fillStyle = '#000';
-    ctx.fillText('Model', width - 105, 38);
-  }, [empirical, params]);
-
-  return (
-    <canvas
-      ref={canvasRef}
-      width={400}
-      height={300}
-      style={{ border: '1px solid #ccc' }}
-    />
-  );
+/**
+ * Copy a block of rows into a grid, keeping the previous values elsewhere
+ */
+function mergeRows(
+  surface: number[][] | null,
+  height: number,
+  rowStart: number,
+  rows: number[][]
+): number[][] {
+  const merged =
+    surface && surface.length === height
+      ? [...surface]
+      : Array.from({ length: height }, () => [] as number[]);
+
+  rows.forEach((row, i) => {
+    merged[rowStart + i] = row;
+  });
+  return merged;
 }
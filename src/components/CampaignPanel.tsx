@@ -0,0 +1,54 @@
+import { LEVELS, Level, findLevel, isLevelUnlocked } from '../utils/campaign';
+
+interface CampaignPanelProps {
+  /** Level of the round in progress; null in free play */
+  currentLevel: string | null;
+  cleared: string[];
+  onPlay: (level: Level) => void;
+}
+
+/**
+ * Level list with each level's rules, lock state and learning goal
+ */
+export function CampaignPanel({ currentLevel, cleared, onPlay }: CampaignPanelProps) {
+  const current = findLevel(currentLevel);
+
+  return (
+    <div className="controls">
+      <h3>
+        Campaign ({cleared.filter(id => findLevel(id)).length}/{LEVELS.length} cleared)
+      </h3>
+
+      {current && (
+        <p className="level-goal">
+          <strong>{current.title}:</strong> {current.goal}
+        </p>
+      )}
+
+      <ol className="level-list">
+        {LEVELS.map((level, index) => {
+          const unlocked = isLevelUnlocked(index, cleared);
+          const status = cleared.includes(level.id) ? 'cleared' : unlocked ? '' : 'locked';
+
+          return (
+            <li key={level.id} className={level.id === currentLevel ? 'current' : status}>
+              <button
+                className="btn btn-small"
+                disabled={!unlocked}
+                onClick={() => onPlay(level)}
+                title={unlocked ? level.goal : 'Clear the previous level to unlock'}
+              >
+                {level.title}
+              </button>
+              <span className="level-rules">
+                {level.size}×{level.size}, {level.maxClicks} samples, target{' '}
+                {Math.round(level.targetFraction * 100)}% of std dev
+                {status && ` — ${status}`}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { CrossValidationResult } from '../utils/crossValidation';
+
+interface CrossValidationPanelProps {
+  result: CrossValidationResult;
+  showResiduals: boolean;
+  onShowResidualsChange: (show: boolean) => void;
+}
+
+/**
+ * Leave-one-out statistics with a predicted-vs-observed scatter
+ */
+export function CrossValidationPanel({
+  result,
+  showResiduals,
+  onShowResidualsChange,
+}: CrossValidationPanelProps) {
+  const { summary } = result;
+  const rows = [
+    { label: 'Mean error', value: summary.meanError, ideal: '0' },
+    { label: 'RMSE', value: summary.rmse, ideal: 'small' },
+    { label: 'Mean standardized error', value: summary.meanStandardizedError, ideal: '0' },
+    { label: 'Standardized squared ratio', value: summary.standardizedSquaredRatio, ideal: '1' },
+  ];
+
+  return (
+    <>
+      <table className="param-comparison">
+        <thead>
+          <tr>
+            <th>Statistic</th>
+            <th>Value</th>
+            <th>Ideal</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td>{row.value.toFixed(2)}</td>
+              <td>{row.ideal}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <CrossValidationScatter result={result} />
+      <div className="control-group chart-control">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={showResiduals}
+            onChange={e => onShowResidualsChange(e.target.checked)}
+          />
+          Show residuals on the sample map
+        </label>
+      </div>
+    </>
+  );
+}
+
+function CrossValidationScatter({ result }: { result: CrossValidationResult }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    const padding = 40;
+
+    // Clear
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+
+    // Shared bounds so the 1:1 line is the diagonal
+    const values = result.residuals.flatMap(residual => [residual.sample.z, residual.estimate]);
+    const low = Math.min(...values);
+    const high = Math.max(...values);
+    const margin = (high - low) * 0.05 || 1;
+    const min = low - margin;
+    const max = high + margin;
+
+    const plotWidth = width - padding * 2;
+    const plotHeight = height - padding * 2;
+    const toCanvasX = (v: number) => padding + ((v - min) / (max - min)) * plotWidth;
+    const toCanvasY = (v: number) => height - padding - ((v - min) / (max - min)) * plotHeight;
+
+    // Draw axes
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, padding);
+    ctx.lineTo(padding, height - padding);
+    ctx.lineTo(width - padding, height - padding);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#000';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('Observed', width / 2, height - 10);
+    ctx.save();
+    ctx.translate(15, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText('Predicted', 0, 0);
+    ctx.restore();
+    ctx.fillText(min.toFixed(0), padding, height - padding + 14);
+    ctx.fillText(max.toFixed(0), width - padding, height - padding + 14);
+
+    // Draw 1:1 line
+    ctx.strokeStyle = '#888';
+    ctx.setLineDash([5, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toCanvasX(min), toCanvasY(min));
+    ctx.lineTo(toCanvasX(max), toCanvasY(max));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw points
+    ctx.fillStyle = 'blue';
+    for (const residual of result.residuals) {
+      ctx.beginPath();
+      ctx.arc(toCanvasX(residual.sample.z), toCanvasY(residual.estimate), 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }, [result]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={300}
+      height={300}
+      style={{ border: '1px solid #ccc' }}
+    />
+  );
+}
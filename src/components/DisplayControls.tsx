@@ -0,0 +1,86 @@
+import { COLORMAPS, COLORMAP_NAMES, ColormapName } from '../utils/colormap';
+import { RasterSampling } from '../utils/raster';
+
+export interface DisplaySettings {
+  /** For values: the surfaces, variance and simulations */
+  colormap: ColormapName;
+  /** For signed differences such as the residual map */
+  divergingColormap: ColormapName;
+  sampling: RasterSampling;
+  contours: boolean;
+}
+
+export const DEFAULT_DISPLAY: DisplaySettings = {
+  colormap: 'viridis',
+  divergingColormap: 'blue-red',
+  sampling: 'nearest',
+  contours: false,
+};
+
+interface DisplayControlsProps {
+  display: DisplaySettings;
+  onChange: (display: DisplaySettings) => void;
+}
+
+/**
+ * How the surface maps are drawn
+ */
+export function DisplayControls({ display, onChange }: DisplayControlsProps) {
+  return (
+    <div className="controls">
+      <h3>Display</h3>
+
+      <div className="control-group">
+        <label>Colormap</label>
+        <select
+          value={display.colormap}
+          onChange={e => onChange({ ...display, colormap: e.target.value as ColormapName })}
+        >
+          {COLORMAP_NAMES.filter(name => !COLORMAPS[name].diverging).map(name => (
+            <option key={name} value={name}>
+              {COLORMAPS[name].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label>Residual Colormap</label>
+        <select
+          value={display.divergingColormap}
+          onChange={e =>
+            onChange({ ...display, divergingColormap: e.target.value as ColormapName })
+          }
+        >
+          {COLORMAP_NAMES.filter(name => COLORMAPS[name].diverging).map(name => (
+            <option key={name} value={name}>
+              {COLORMAPS[name].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label>Sampling</label>
+        <select
+          value={display.sampling}
+          onChange={e => onChange({ ...display, sampling: e.target.value as RasterSampling })}
+        >
+          <option value="nearest">Nearest (show cells)</option>
+          <option value="bilinear">Bilinear (smooth)</option>
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={display.contours}
+            onChange={e => onChange({ ...display, contours: e.target.checked })}
+          />
+          Contour lines
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { ErrorHistogram } from '../utils/scoring';
+
+/**
+ * Histogram of prediction − truth over every cell, with zero marked
+ */
+export function ErrorDistribution({ histogram }: { histogram: ErrorHistogram }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    const padding = 20;
+    const { edges, counts } = histogram;
+
+    // Clear
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    if (counts.length === 0) return;
+
+    const low = edges[0];
+    const high = edges[edges.length - 1];
+    const maxCount = Math.max(...counts) || 1;
+    const toCanvasX = (v: number) => padding + ((v - low) / (high - low)) * (width - 2 * padding);
+    const toCanvasY = (c: number) => height - padding - (c / maxCount) * (height - 2 * padding);
+
+    // Draw bars
+    ctx.fillStyle = '#667eea';
+    counts.forEach((count, i) => {
+      const left = toCanvasX(edges[i]);
+      const right = toCanvasX(edges[i + 1]);
+      const top = toCanvasY(count);
+      ctx.fillRect(left, top, Math.max(right - left - 1, 1), height - padding - top);
+    });
+
+    // Draw zero line
+    ctx.strokeStyle = '#333';
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(toCanvasX(0), 6);
+    ctx.lineTo(toCanvasX(0), height - padding);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw labels
+    ctx.fillStyle = '#000';
+    ctx.font = '11px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(low.toFixed(1), padding, height - 6);
+    ctx.textAlign = 'right';
+    ctx.fillText(high.toFixed(1), width - padding, height - 6);
+    ctx.textAlign = 'center';
+    ctx.fillText('error (prediction − truth)', width / 2, height - 6);
+  }, [histogram]);
+
+  return <canvas ref={canvasRef} width={280} height={110} className="error-distribution" />;
+}
@@ -0,0 +1,87 @@
+import { DriftOrder, Estimator } from '../utils/kriging';
+
+interface EstimatorControlsProps {
+  estimator: Estimator;
+  /** Mean of the current samples, offered as the simple kriging mean */
+  sampleMean: number | null;
+  /** Span of the mean slider; defaults to 0–100 */
+  valueRange?: [number, number];
+  onChange: (estimator: Estimator) => void;
+}
+
+const DEFAULT_MEAN = 50;
+
+/**
+ * Choose between ordinary, simple and universal kriging
+ */
+export function EstimatorControls({
+  estimator,
+  sampleMean,
+  valueRange = [0, 100],
+  onChange,
+}: EstimatorControlsProps) {
+  const [minValue, maxValue] = valueRange;
+
+  function selectMethod(method: Estimator['method']) {
+    if (method === 'simple') {
+      onChange({ method, mean: sampleMean ?? DEFAULT_MEAN });
+    } else if (method === 'universal') {
+      onChange({ method, drift: 'linear' });
+    } else {
+      onChange({ method });
+    }
+  }
+
+  return (
+    <div className="controls">
+      <h3>Estimator</h3>
+
+      <div className="control-group">
+        <label>Kriging Method</label>
+        <select
+          value={estimator.method}
+          onChange={e => selectMethod(e.target.value as Estimator['method'])}
+        >
+          <option value="ordinary">Ordinary (unknown constant mean)</option>
+          <option value="simple">Simple (known mean)</option>
+          <option value="universal">Universal (trend)</option>
+        </select>
+      </div>
+
+      {estimator.method === 'simple' && (
+        <div className="control-group">
+          <label>Mean: {estimator.mean.toFixed(2)}</label>
+          <input
+            type="range"
+            min={minValue}
+            max={maxValue}
+            step={(maxValue - minValue) / 200}
+            value={estimator.mean}
+            onChange={e => onChange({ ...estimator, mean: parseFloat(e.target.value) })}
+          />
+          {sampleMean !== null && (
+            <button
+              className="btn btn-small"
+              onClick={() => onChange({ ...estimator, mean: sampleMean })}
+            >
+              Use Sample Mean ({sampleMean.toFixed(2)})
+            </button>
+          )}
+        </div>
+      )}
+
+      {estimator.method === 'universal' && (
+        <div className="control-group">
+          <label>Drift</label>
+          <select
+            value={estimator.drift}
+            onChange={e => onChange({ ...estimator, drift: e.target.value as DriftOrder })}
+          >
+            <option value="linear">Linear in x, y</option>
+            <option value="quadratic">Quadratic in x, y</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { createContext, useContext } from 'react';
+
+export type ConceptId = 'nugget' | 'sill' | 'range' | 'bins' | 'rmse';
+
+interface Concept {
+  title: string;
+  body: string;
+}
+
+export const CONCEPTS: Record<ConceptId, Concept> = {
+  nugget: {
+    title: 'Nugget',
+    body:
+      'Semivariance at zero distance. It captures measurement error and variation at ' +
+      'scales shorter than the closest samples. A larger nugget makes the prediction smoother ' +
+      'and less tied to individual samples.',
+  },
+  sill: {
+    title: 'Sill',
+    body:
+      'The plateau the semivariogram levels off at: the total variance of the surface. ' +
+      'Partial sills are the part each structure adds on top of the nugget.',
+  },
+  range: {
+    title: 'Range',
+    body:
+      'Distance at which the curve reaches the sill. Samples further apart than this are ' +
+      'effectively unrelated, so they barely influence each other’s predictions.',
+  },
+  bins: {
+    title: 'Semivariogram Bins',
+    body:
+      'Every pair of samples is grouped by separation distance. Each dot is half the mean ' +
+      'squared difference within one group; the number is how many pairs it rests on. Dots ' +
+      'backed by few pairs are noisy, so weigh them less when fitting. The bars show how ' +
+      'widely the pairs in a group scatter; hover a dot to trace its pairs on the map.',
+  },
+  rmse: {
+    title: 'RMSE',
+    body:
+      'Root mean squared error between the predicted and true surfaces over every cell. ' +
+      'Lower is better; you win when it drops below the target.',
+  },
+};
+
+interface ExplainerState {
+  active: ConceptId | null;
+  setActive: (concept: ConceptId | null) => void;
+}
+
+export const ExplainerContext = createContext<ExplainerState>({
+  active: null,
+  setActive: () => undefined,
+});
+
+/**
+ * Concept currently being explained, so charts can highlight the matching region
+ */
+export function useExplainer(): ExplainerState {
+  return useContext(ExplainerContext);
+}
+
+/**
+ * Small "?" badge that explains a concept while hovered or focused
+ */
+export function ConceptHint({ concept }: { concept: ConceptId }) {
+  const { active, setActive } = useExplainer();
+  const { title, body } = CONCEPTS[concept];
+
+  return (
+    <span
+      className="concept-hint"
+      tabIndex={0}
+      aria-label={`What is ${title.toLowerCase()}?`}
+      onMouseEnter={() => setActive(concept)}
+      onMouseLeave={() => setActive(null)}
+      onFocus={() => setActive(concept)}
+      onBlur={() => setActive(null)}
+    >
+      ?
+      {active === concept && (
+        <span className="concept-card" role="tooltip">
+          <strong>{title}</strong>
+          {body}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Colormap } from '../utils/colormap';
+import { Sample } from '../utils/kriging';
+import {
+  NamedGrid,
+  downloadBlob,
+  downloadText,
+  gridsToCsv,
+  renderGridPng,
+  samplesToCsv,
+  toEsriAscii,
+  variogramToJson,
+} from '../utils/exporters';
+import { GridExtent } from '../utils/sampleImport';
+import { VariogramParams, totalSill } from '../utils/variogramModels';
+
+interface ExportControlsProps {
+  /** Prefix for every exported file name */
+  basename: string;
+  extent: GridExtent;
+  predicted: number[][] | null;
+  variance: number[][] | null;
+  samples: Sample[];
+  params: VariogramParams;
+  valueRange: [number, number];
+  /** Colormap of the on-screen maps, reused for the PNGs */
+  colormap: Colormap;
+}
+
+/**
+ * Download buttons for the grids, samples and variogram model
+ */
+export function ExportControls({
+  basename,
+  extent,
+  predicted,
+  variance,
+  samples,
+  params,
+  valueRange,
+  colormap,
+}: ExportControlsProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const grids: NamedGrid[] = [
+    ...(predicted ? [{ name: 'estimate', grid: predicted }] : []),
+    ...(variance ? [{ name: 'variance', grid: variance }] : []),
+  ];
+
+  function exportPng(grid: number[][], range: [number, number], title: string, name: string) {
+    renderGridPng(grid, samples, range, title, colormap)
+      .then(blob => {
+        downloadBlob(blob, `${basename}-${name}.png`);
+        setError(null);
+      })
+      .catch(reason => setError(reason instanceof Error ? reason.message : String(reason)));
+  }
+
+  return (
+    <div className="controls">
+      <h3>Export</h3>
+
+      <div className="export-buttons">
+        <button
+          className="btn btn-small"
+          disabled={!predicted}
+          onClick={() =>
+            predicted &&
+            downloadText(toEsriAscii(predicted, extent), `${basename}-estimate.asc`, 'text/plain')
+          }
+        >
+          Estimate (.asc)
+        </button>
+        <button
+          className="btn btn-small"
+          disabled={!variance}
+          onClick={() =>
+            variance &&
+            downloadText(toEsriAscii(variance, extent), `${basename}-variance.asc`, 'text/plain')
+          }
+        >
+          Variance (.asc)
+        </button>
+        <button
+          className="btn btn-small"
+          disabled={grids.length === 0}
+          onClick={() =>
+            downloadText(gridsToCsv(grids, extent), `${basename}-grid.csv`, 'text/csv')
+          }
+        >
+          Grids (.csv)
+        </button>
+        <button
+          className="btn btn-small"
+          disabled={samples.length === 0}
+          onClick={() =>
+            downloadText(samplesToCsv(samples, extent), `${basename}-samples.csv`, 'text/csv')
+          }
+        >
+          Samples (.csv)
+        </button>
+        <button
+          className="btn btn-small"
+          disabled={!predicted}
+          onClick={() =>
+            predicted && exportPng(predicted, valueRange, 'Kriged estimate', 'estimate')
+          }
+        >
+          Estimate (.png)
+        </button>
+        <button
+          className="btn btn-small"
+          disabled={!variance}
+          onClick={() =>
+            variance &&
+            exportPng(variance, [0, totalSill(params)], 'Kriging variance', 'variance')
+          }
+        >
+          Variance (.png)
+        </button>
+        <button
+          className="btn btn-small"
+          onClick={() =>
+            downloadText(
+              variogramToJson(params, extent),
+              `${basename}-variogram.json`,
+              'application/json'
+            )
+          }
+        >
+          Variogram (.json)
+        </button>
+      </div>
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+}
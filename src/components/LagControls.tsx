@@ -0,0 +1,84 @@
+import { LagSettings } from '../utils/kriging';
+
+interface LagControlsProps {
+  lags: LagSettings;
+  onChange: (lags: LagSettings) => void;
+  /** Longest separation on the grid; a max lag this far keeps every pair */
+  maxDistance: number;
+  showCloud: boolean;
+  onShowCloudChange: (show: boolean) => void;
+}
+
+/**
+ * How sample pairs are binned into the empirical semivariogram
+ */
+export function LagControls({
+  lags,
+  onChange,
+  maxDistance,
+  showCloud,
+  onShowCloudChange,
+}: LagControlsProps) {
+  const limit = Math.ceil(maxDistance);
+
+  return (
+    <>
+      <div className="control-group chart-control">
+        <label>Lag Width: {lags.width.toFixed(1)}</label>
+        <input
+          type="range"
+          min="1"
+          max="10"
+          step="0.5"
+          value={lags.width}
+          // A new width starts from bins that just touch
+          onChange={e => {
+            const width = parseFloat(e.target.value);
+            onChange({ ...lags, width, tolerance: width / 2 });
+          }}
+        />
+      </div>
+
+      <div className="control-group chart-control">
+        <label>
+          Lag Tolerance: ±{lags.tolerance.toFixed(2)}
+          {lags.tolerance > lags.width / 2 && ' (bins overlap)'}
+        </label>
+        <input
+          type="range"
+          min={lags.width / 4}
+          max={lags.width * 1.5}
+          step={lags.width / 8}
+          value={lags.tolerance}
+          onChange={e => onChange({ ...lags, tolerance: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <div className="control-group chart-control">
+        <label>Max Lag: {lags.maxLag === null ? 'none' : lags.maxLag.toFixed(0)}</label>
+        <input
+          type="range"
+          min={Math.min(5, limit)}
+          max={limit}
+          step="1"
+          value={lags.maxLag ?? limit}
+          onChange={e => {
+            const maxLag = parseFloat(e.target.value);
+            onChange({ ...lags, maxLag: maxLag >= limit ? null : maxLag });
+          }}
+        />
+      </div>
+
+      <div className="control-group chart-control">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={showCloud}
+            onChange={e => onShowCloudChange(e.target.checked)}
+          />
+          Show variogram cloud (every pair)
+        </label>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+import { Neighborhood } from '../utils/kriging';
+
+interface NeighborhoodControlsProps {
+  neighborhood: Neighborhood | null;
+  onChange: (neighborhood: Neighborhood | null) => void;
+}
+
+const DEFAULT_NEIGHBORHOOD: Neighborhood = {
+  maxNeighbors: 8,
+  searchRadius: 30,
+  sectors: 1,
+};
+
+/** Slider value that stands for an unlimited search radius */
+const UNLIMITED_RADIUS = 91;
+
+/**
+ * Search neighborhood settings for local kriging
+ */
+export function NeighborhoodControls({ neighborhood, onChange }: NeighborhoodControlsProps) {
+  return (
+    <div className="controls">
+      <h3>Search Neighborhood</h3>
+
+      <div className="control-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={neighborhood !== null}
+            onChange={e => onChange(e.target.checked ? DEFAULT_NEIGHBORHOOD : null)}
+          />
+          Local neighborhood (otherwise every sample is used)
+        </label>
+      </div>
+
+      {neighborhood && (
+        <>
+          <div className="control-group">
+            <label>Max Neighbors: {neighborhood.maxNeighbors}</label>
+            <input
+              type="range"
+              min="1"
+              max="50"
+              step="1"
+              value={neighborhood.maxNeighbors}
+              onChange={e =>
+                onChange({ ...neighborhood, maxNeighbors: parseInt(e.target.value, 10) })
+              }
+            />
+          </div>
+
+          <div className="control-group">
+            <label>
+              Search Radius:{' '}
+              {Number.isFinite(neighborhood.searchRadius)
+                ? neighborhood.searchRadius.toFixed(0)
+                : 'unlimited'}
+            </label>
+            <input
+              type="range"
+              min="2"
+              max={UNLIMITED_RADIUS}
+              step="1"
+              value={
+                Number.isFinite(neighborhood.searchRadius)
+                  ? neighborhood.searchRadius
+                  : UNLIMITED_RADIUS
+              }
+              onChange={e => {
+                const value = parseFloat(e.target.value);
+                onChange({
+                  ...neighborhood,
+                  searchRadius: value >= UNLIMITED_RADIUS ? Infinity : value,
+                });
+              }}
+            />
+          </div>
+
+          <div className="control-group">
+            <label>Sector Balancing</label>
+            <select
+              value={neighborhood.sectors}
+              onChange={e =>
+                onChange({
+                  ...neighborhood,
+                  sectors: parseInt(e.target.value, 10) as Neighborhood['sectors'],
+                })
+              }
+            >
+              <option value={1}>None</option>
+              <option value={4}>Quadrants</option>
+              <option value={8}>Octants</option>
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import {
+  VARIOGRAM_MODELS,
+  VariogramParams,
+  VariogramStructure,
+  totalSill,
+} from '../utils/variogramModels';
+
+export interface ComparisonColumn {
+  title: string;
+  params: VariogramParams;
+  /** Score of a prediction made with these parameters, when known */
+  rmse?: number | null;
+}
+
+interface ParamComparisonProps {
+  columns: ComparisonColumn[];
+}
+
+/**
+ * Side-by-side table of variogram parameter sets
+ */
+export function ParamComparison({ columns }: ParamComparisonProps) {
+  const rows: { label: string; cells: string[] }[] = [];
+
+  if (columns.some(column => column.rmse !== undefined)) {
+    rows.push({
+      label: 'RMSE',
+      cells: columns.map(column => column.rmse?.toFixed(2) ?? '—'),
+    });
+  }
+  rows.push(
+    { label: 'Nugget', cells: columns.map(column => column.params.nugget.toFixed(2)) },
+    { label: 'Total sill', cells: columns.map(column => totalSill(column.params).toFixed(2)) }
+  );
+
+  const count = Math.max(...columns.map(column => column.params.structures.length));
+  for (let i = 0; i < count; i++) {
+    rows.push({
+      label: `Structure ${i + 1}`,
+      cells: columns.map(column => describeStructure(column.params.structures[i])),
+    });
+  }
+
+  return (
+    <table className="param-comparison">
+      <thead>
+        <tr>
+          <th>Parameter</th>
+          {columns.map(column => (
+            <th key={column.title}>{column.title}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label}>
+            <td>{row.label}</td>
+            {row.cells.map((cell, i) => (
+              <td key={columns[i].title}>{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function describeStructure(structure: VariogramStructure | undefined): string {
+  if (!structure) return '—';
+
+  const ranges =
+    structure.minorRange !== undefined
+      ? `${structure.range.toFixed(1)}/${structure.minorRange.toFixed(1)} ${(
+          structure.azimuth ?? 0
+        ).toFixed(0)}°`
+      : structure.range.toFixed(1);
+  return `${VARIOGRAM_MODELS[structure.model].label} ${structure.sill.toFixed(1)} @ ${ranges}`;
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { SessionEvent, SessionStep } from '../utils/session';
+
+interface ReplayControlsProps {
+  steps: SessionStep[];
+  /** Log entries; step i > 0 is the state after events[i − 1] */
+  events: SessionEvent[];
+  step: number;
+  onStepChange: (step: number) => void;
+  rmse: number | null;
+  targetRmse: number;
+  onClose: () => void;
+}
+
+/** Delay between steps while playing */
+const PLAY_INTERVAL_MS = 800;
+
+/**
+ * Step through a recorded session, by hand or on a timer
+ */
+export function ReplayControls({
+  steps,
+  events,
+  step,
+  onStepChange,
+  rmse,
+  targetRmse,
+  onClose,
+}: ReplayControlsProps) {
+  const [playing, setPlaying] = useState(false);
+  const last = steps.length - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= last) {
+      setPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => onStepChange(step + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, last]);
+
+  const current = steps[step];
+
+  return (
+    <>
+      <div className="control-group chart-control">
+        <label>
+          Step {step} of {last} · {formatElapsed(current.time)} ·{' '}
+          {describeEvent(events[step - 1])}
+        </label>
+        <input
+          type="range"
+          min="0"
+          max={last}
+          step="1"
+          value={step}
+          onChange={e => onStepChange(parseInt(e.target.value, 10))}
+        />
+        <div className="control-actions">
+          <button
+            className="btn btn-small"
+            disabled={step === 0}
+            onClick={() => onStepChange(step - 1)}
+          >
+            Previous
+          </button>
+          <button className="btn btn-small" onClick={() => setPlaying(!playing)}>
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button
+            className="btn btn-small"
+            disabled={step === last}
+            onClick={() => onStepChange(step + 1)}
+          >
+            Next
+          </button>
+          <button className="btn btn-small btn-secondary" onClick={onClose}>
+            Close Replay
+          </button>
+        </div>
+      </div>
+
+      <table className="param-comparison">
+        <tbody>
+          <tr>
+            <td>Samples</td>
+            <td>{current.samples.length}</td>
+          </tr>
+          <tr>
+            <td>RMSE</td>
+            <td>{rmse !== null ? rmse.toFixed(2) : '—'}</td>
+          </tr>
+          <tr>
+            <td>Target RMSE</td>
+            <td>{targetRmse.toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+function describeEvent(event: SessionEvent | undefined): string {
+  if (!event) return 'Start';
+  if (event.type === 'sample') return `Sampled (${event.sample.x}, ${event.sample.y})`;
+  return 'Variogram changed';
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
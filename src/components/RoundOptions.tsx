@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { RoundSettings } from '../utils/roundSettings';
+import { TrendShape } from '../utils/surfaceGenerator';
+import {
+  VARIOGRAM_MODELS,
+  VARIOGRAM_MODEL_TYPES,
+  VariogramModelType,
+} from '../utils/variogramModels';
+
+type RoundChoices = Pick<RoundSettings, 'truthModel' | 'anisotropic' | 'trend'>;
+
+interface RoundOptionsProps {
+  settings: RoundSettings;
+  onStart: (choices: RoundChoices) => void;
+}
+
+/**
+ * Choose how the next hidden surface is generated
+ */
+export function RoundOptions({ settings, onStart }: RoundOptionsProps) {
+  const [choices, setChoices] = useState<RoundChoices>({
+    truthModel: settings.truthModel,
+    anisotropic: settings.anisotropic,
+    trend: settings.trend,
+  });
+
+  return (
+    <div className="round-options">
+      <select
+        value={choices.truthModel}
+        onChange={e =>
+          setChoices({ ...choices, truthModel: e.target.value as VariogramModelType })
+        }
+      >
+        {VARIOGRAM_MODEL_TYPES.map(model => (
+          <option key={model} value={model}>
+            {VARIOGRAM_MODELS[model].label} truth
+          </option>
+        ))}
+      </select>
+      <select
+        value={choices.trend}
+        onChange={e => setChoices({ ...choices, trend: e.target.value as TrendShape })}
+      >
+        <option value="none">No trend</option>
+        <option value="linear">Linear trend</option>
+        <option value="quadratic">Quadratic trend</option>
+      </select>
+      <label>
+        <input
+          type="checkbox"
+          checked={choices.anisotropic}
+          onChange={e => setChoices({ ...choices, anisotropic: e.target.checked })}
+        />
+        Anisotropic
+      </label>
+      <button className="btn btn-small" onClick={() => onStart(choices)}>
+        New Round
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Sample } from '../utils/kriging';
+import {
+  ColumnMapping,
+  DelimitedTable,
+  GeoJsonPoints,
+  MAX_SAMPLES,
+  guessColumnMapping,
+  parseDelimited,
+  parseGeoJson,
+  samplesFromGeoJson,
+  samplesFromTable,
+} from '../utils/sampleImport';
+
+interface SandboxImportProps {
+  /** Called with samples in the file's own coordinates */
+  onLoad: (name: string, samples: Sample[]) => void;
+}
+
+type ParsedFile =
+  | { kind: 'table'; name: string; table: DelimitedTable }
+  | { kind: 'geojson'; name: string; points: GeoJsonPoints };
+
+/** Select value standing for a GeoJSON point's third coordinate */
+const ELEVATION = '';
+
+/**
+ * Load sample points from a CSV or GeoJSON file, choosing which fields hold
+ * the coordinates and value
+ */
+export function SandboxImport({ onLoad }: SandboxImportProps) {
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ x: '', y: '', z: '' });
+  const [property, setProperty] = useState(ELEVATION);
+  const [error, setError] = useState<string | null>(null);
+
+  function readFile(file: File) {
+    file
+      .text()
+      .then(text => {
+        if (/\.(geo)?json$/i.test(file.name)) {
+          const points = parseGeoJson(text);
+          setParsed({ kind: 'geojson', name: file.name, points });
+          setProperty(points.numericProperties[0] ?? ELEVATION);
+        } else {
+          const table = parseDelimited(text);
+          setParsed({ kind: 'table', name: file.name, table });
+          setMapping(guessColumnMapping(table.headers));
+        }
+        setError(null);
+      })
+      .catch(reason => {
+        setParsed(null);
+        setError(reason instanceof Error ? reason.message : String(reason));
+      });
+  }
+
+  function load() {
+    if (!parsed) return;
+
+    try {
+      const samples =
+        parsed.kind === 'table'
+          ? samplesFromTable(parsed.table, mapping)
+          : samplesFromGeoJson(parsed.points, property === ELEVATION ? null : property);
+      onLoad(parsed.name, samples);
+      setError(null);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    }
+  }
+
+  return (
+    <div className="controls">
+      <h3>Sandbox Data</h3>
+
+      <div className="control-group">
+        <label>CSV or GeoJSON points (up to {MAX_SAMPLES})</label>
+        <input
+          type="file"
+          accept=".csv,.txt,.tsv,.json,.geojson"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+          }}
+        />
+      </div>
+
+      {parsed?.kind === 'table' &&
+        (['x', 'y', 'z'] as const).map(key => (
+          <div className="control-group" key={key}>
+            <label>{key.toUpperCase()} Column</label>
+            <select
+              value={mapping[key]}
+              onChange={e => setMapping({ ...mapping, [key]: e.target.value })}
+            >
+              {parsed.table.headers.map(header => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+      {parsed?.kind === 'geojson' && (
+        <div className="control-group">
+          <label>Value</label>
+          <select value={property} onChange={e => setProperty(e.target.value)}>
+            {parsed.points.numericProperties.map(name => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+            {parsed.points.hasElevation && (
+              <option value={ELEVATION}>Third coordinate</option>
+            )}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="error-message">{error}</p>}
+
+      <div className="control-actions">
+        <button className="btn btn-small" onClick={load} disabled={!parsed}>
+          Load Samples
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from 'react';
+import { findLevel } from '../utils/campaign';
+import { downloadText } from '../utils/exporters';
+import {
+  RoundResult,
+  importResults,
+  leaderboard,
+  loadPlayerName,
+  parseResults,
+  serializeResults,
+  storePlayerName,
+} from '../utils/scoreHistory';
+
+interface ScoreHistoryProps {
+  /** Every stored result, oldest first */
+  results: RoundResult[];
+  /** Key of the round on screen; null when it has no leaderboard (sandbox mode) */
+  currentRound: string | null;
+  onResultsChange: (results: RoundResult[]) => void;
+  /** RMSE ÷ target at or below which a round is won */
+  winRatio: number;
+}
+
+/**
+ * Trends over this browser's rounds, a leaderboard for the current seed,
+ * and result files for comparing with other players
+ */
+export function ScoreHistory({
+  results,
+  currentRound,
+  onResultsChange,
+  winRatio,
+}: ScoreHistoryProps) {
+  const [player, setPlayer] = useState(loadPlayerName);
+  const [error, setError] = useState<string | null>(null);
+
+  const own = results.filter(result => result.player === null);
+  const board = currentRound ? leaderboard(results, currentRound) : [];
+
+  function openFile(file: File) {
+    file
+      .text()
+      .then(text => {
+        onResultsChange(importResults(parseResults(text)));
+        setError(null);
+      })
+      .catch(reason => setError(reason instanceof Error ? reason.message : String(reason)));
+  }
+
+  return (
+    <>
+      {own.length === 0 ? (
+        <div className="placeholder">Finish a round to start your history.</div>
+      ) : (
+        <div className="trend-charts">
+          <TrendChart
+            title={`RMSE ÷ target (${winRatio} or below wins)`}
+            values={own.map(result => result.relativeRmse)}
+            reference={winRatio}
+          />
+          <TrendChart
+            title="Minutes taken"
+            values={own.map(result => result.duration / 60000)}
+          />
+        </div>
+      )}
+
+      {board.length > 0 && (
+        <table className="param-comparison">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Player</th>
+              <th>RMSE</th>
+              <th>Samples</th>
+              <th>Time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {board.map((result, index) => (
+              <tr key={`${result.player}-${result.id}`}>
+                <td>{index + 1}</td>
+                <td>{result.player ?? `${player || 'You'} (this browser)`}</td>
+                <td>{result.rmse.toFixed(2)}</td>
+                <td>{result.samplesUsed}</td>
+                <td>{formatDuration(result.duration)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {own.length > 0 && (
+        <table className="param-comparison">
+          <thead>
+            <tr>
+              <th>Finished</th>
+              <th>Seed</th>
+              <th>Level</th>
+              <th>RMSE</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {own
+              .slice(-10)
+              .reverse()
+              .map(result => (
+                <tr key={result.id}>
+                  <td>{new Date(result.finishedAt).toLocaleDateString()}</td>
+                  <td>{result.seed}</td>
+                  <td>{findLevel(result.level)?.title ?? 'Free play'}</td>
+                  <td>{result.rmse.toFixed(2)}</td>
+                  <td>{result.won ? 'Won' : 'Lost'}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="control-group chart-control">
+        <label>Your Name (shown to other players)</label>
+        <input
+          type="text"
+          value={player}
+          onChange={e => {
+            setPlayer(e.target.value);
+            storePlayerName(e.target.value);
+          }}
+        />
+        <div className="control-actions">
+          <button
+            className="btn btn-small"
+            disabled={own.length === 0 || !player.trim()}
+            onClick={() =>
+              downloadText(
+                serializeResults(results, player.trim()),
+                `results-${player.trim().replace(/\W+/g, '-')}.json`,
+                'application/json'
+              )
+            }
+          >
+            Export Results
+          </button>
+        </div>
+        <label>Import a Classmate's Results</label>
+        <input
+          type="file"
+          accept=".json"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+          }}
+        />
+        {error && <p className="error-message">{error}</p>}
+      </div>
+    </>
+  );
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+interface TrendChartProps {
+  title: string;
+  /** One value per round, oldest first */
+  values: number[];
+  /** Level drawn as a dashed line, such as the winning threshold */
+  reference?: number;
+}
+
+function TrendChart({ title, values, reference }: TrendChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    const padding = 30;
+
+    // Clear
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+
+    const max = Math.max(...values, reference ?? 0) * 1.1 || 1;
+    const toCanvasX = (i: number) =>
+      padding + (values.length > 1 ? i / (values.length - 1) : 0.5) * (width - 2 * padding);
+    const toCanvasY = (v: number) => height - padding - (v / max) * (height - 2 * padding);
+
+    // Draw axes
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, 10);
+    ctx.lineTo(padding, height - padding);
+    ctx.lineTo(width - 10, height - padding);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#000';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(title, width / 2, 12);
+    ctx.fillText(`Rounds (${values.length})`, width / 2, height - 8);
+    ctx.textAlign = 'right';
+    ctx.fillText(max.toFixed(1), padding - 4, 16);
+    ctx.fillText('0', padding - 4, height - padding);
+
+    if (reference !== undefined) {
+      ctx.strokeStyle = '#888';
+      ctx.setLineDash([5, 4]);
+      ctx.beginPath();
+      ctx.moveTo(padding, toCanvasY(reference));
+      ctx.lineTo(width - 10, toCanvasY(reference));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Draw the trend
+    ctx.strokeStyle = 'blue';
+    ctx.fillStyle = 'blue';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    values.forEach((value, i) => {
+      if (i === 0) ctx.moveTo(toCanvasX(i), toCanvasY(value));
+      else ctx.lineTo(toCanvasX(i), toCanvasY(value));
+    });
+    ctx.stroke();
+    values.forEach((value, i) => {
+      ctx.beginPath();
+      ctx.arc(toCanvasX(i), toCanvasY(value), 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }, [title, values, reference]);
+
+  return <canvas ref={canvasRef} width={280} height={160} style={{ border: '1px solid #ccc' }} />;
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { downloadText } from '../utils/exporters';
+import {
+  SavedSession,
+  Session,
+  deleteSavedSession,
+  listSavedSessions,
+  parseSession,
+  saveSessionLocally,
+  serializeSession,
+} from '../utils/session';
+
+interface SessionControlsProps {
+  /** The round in progress; null when it cannot be saved (sandbox mode) */
+  session: Session | null;
+  onResume: (session: Session) => void;
+  onReplay: (session: Session) => void;
+}
+
+/** Select value for a session opened from a file rather than the browser */
+const FROM_FILE = 'file';
+
+/**
+ * Save sessions to the browser or a file, and bring them back to resume
+ * or replay
+ */
+export function SessionControls({ session, onResume, onReplay }: SessionControlsProps) {
+  const [saved, setSaved] = useState<SavedSession[]>(listSavedSessions);
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState('');
+  const [fileSession, setFileSession] = useState<Session | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected =
+    selectedId === FROM_FILE
+      ? fileSession
+      : saved.find(entry => entry.id === selectedId)?.session ?? null;
+  const defaultName = session ? `Round ${session.settings.seed}` : '';
+
+  function save() {
+    if (!session) return;
+
+    try {
+      const sessions = saveSessionLocally(name.trim() || defaultName, session);
+      setSaved(sessions);
+      setSelectedId(sessions[0].id);
+      setError(null);
+    } catch {
+      setError('Could not write to browser storage');
+    }
+  }
+
+  function openFile(file: File) {
+    file
+      .text()
+      .then(text => {
+        setFileSession(parseSession(text));
+        setSelectedId(FROM_FILE);
+        setError(null);
+      })
+      .catch(reason => setError(reason instanceof Error ? reason.message : String(reason)));
+  }
+
+  function remove() {
+    setSaved(deleteSavedSession(selectedId));
+    setSelectedId('');
+  }
+
+  return (
+    <div className="controls">
+      <h3>Sessions</h3>
+
+      <div className="control-group">
+        <label>Name</label>
+        <input
+          type="text"
+          value={name}
+          placeholder={defaultName}
+          disabled={!session}
+          onChange={e => setName(e.target.value)}
+        />
+        <div className="control-actions">
+          <button className="btn btn-small" onClick={save} disabled={!session}>
+            Save in Browser
+          </button>
+          <button
+            className="btn btn-small"
+            disabled={!session}
+            onClick={() =>
+              session &&
+              downloadText(
+                serializeSession(session),
+                `session-${session.settings.seed}.json`,
+                'application/json'
+              )
+            }
+          >
+            Download
+          </button>
+        </div>
+      </div>
+
+      <div className="control-group">
+        <label>Saved Sessions</label>
+        <select value={selectedId} onChange={e => setSelectedId(e.target.value)}>
+          <option value="">Choose a session…</option>
+          {fileSession && (
+            <option value={FROM_FILE}>From file (seed {fileSession.settings.seed})</option>
+          )}
+          {saved.map(entry => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name} — {new Date(entry.savedAt).toLocaleString()}
+            </option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept=".json"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+          }}
+        />
+        <div className="control-actions">
+          <button
+            className="btn btn-small"
+            disabled={!selected}
+            onClick={() => selected && onResume(selected)}
+          >
+            Resume
+          </button>
+          <button
+            className="btn btn-small"
+            disabled={!selected}
+            onClick={() => selected && onReplay(selected)}
+          >
+            Replay
+          </button>
+          <button
+            className="btn btn-small btn-secondary"
+            disabled={!selected || selectedId === FROM_FILE}
+            onClick={remove}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+    </div>
+  );
+}
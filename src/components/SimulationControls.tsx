@@ -0,0 +1,120 @@
+export type SimulationView = 'realization' | 'etype' | 'p10' | 'p90';
+
+interface SimulationControlsProps {
+  /** Realizations to draw on the next run */
+  count: number;
+  onCountChange: (count: number) => void;
+  onSimulate: () => void;
+  /** Realizations finished so far, out of `total` */
+  completed: number;
+  total: number;
+  view: SimulationView;
+  onViewChange: (view: SimulationView) => void;
+  realizationIndex: number;
+  onRealizationIndexChange: (index: number) => void;
+  /** Summary scores, shown once every realization is in */
+  comparison: { label: string; value: number }[];
+  /** Why the current model cannot be simulated; null when it can */
+  unavailable: string | null;
+}
+
+const REALIZATION_COUNTS = [10, 25, 50, 100];
+
+/**
+ * Run conditional simulation and choose which map to show
+ */
+export function SimulationControls({
+  count,
+  onCountChange,
+  onSimulate,
+  completed,
+  total,
+  view,
+  onViewChange,
+  realizationIndex,
+  onRealizationIndexChange,
+  comparison,
+  unavailable,
+}: SimulationControlsProps) {
+  const running = completed < total;
+  const summaryReady = total > 0 && !running;
+
+  return (
+    <>
+      <div className="control-group chart-control">
+        <label>Realizations</label>
+        <select value={count} onChange={e => onCountChange(parseInt(e.target.value, 10))}>
+          {REALIZATION_COUNTS.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <div className="control-actions">
+          <button
+            className="btn btn-small"
+            onClick={onSimulate}
+            disabled={unavailable !== null}
+            title={unavailable ?? undefined}
+          >
+            {running ? `Simulating ${completed}/${total}…` : 'Simulate'}
+          </button>
+        </div>
+        {unavailable && <p className="simulation-note">{unavailable}</p>}
+      </div>
+
+      {completed > 0 && (
+        <div className="control-group chart-control">
+          <label>Show</label>
+          <select value={view} onChange={e => onViewChange(e.target.value as SimulationView)}>
+            <option value="realization">Realization</option>
+            <option value="etype" disabled={!summaryReady}>
+              E-type mean
+            </option>
+            <option value="p10" disabled={!summaryReady}>
+              P10
+            </option>
+            <option value="p90" disabled={!summaryReady}>
+              P90
+            </option>
+          </select>
+        </div>
+      )}
+
+      {view === 'realization' && completed > 0 && (
+        <div className="control-group chart-control">
+          <label>
+            Realization {realizationIndex + 1} of {completed}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={completed - 1}
+            step="1"
+            value={realizationIndex}
+            onChange={e => onRealizationIndexChange(parseInt(e.target.value, 10))}
+          />
+        </div>
+      )}
+
+      {summaryReady && comparison.length > 0 && (
+        <table className="param-comparison">
+          <thead>
+            <tr>
+              <th>Comparison</th>
+              <th>Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.map(row => (
+              <tr key={row.label}>
+                <td>{row.label}</td>
+                <td>{row.value.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,480 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Colormap, valueToColor } from '../utils/colormap';
+import { CrossValidationResidual } from '../utils/crossValidation';
+import { Sample, SampleWeight } from '../utils/kriging';
+import { RasterSampling, contourSegments, niceTicks, paintRaster } from '../utils/raster';
+import { GridExtent, gridToWorld } from '../utils/sampleImport';
+
+/** Length of the longer canvas side; the other follows the grid's aspect */
+const CANVAS_SIZE = 400;
+const CONTOUR_COUNT = 8;
+
+interface SurfaceVisualizationProps {
+  surface: number[][];
+  samples: Sample[];
+  /** Values mapped to the ends of the colormap; defaults to the surface's own range */
+  valueRange?: [number, number];
+  /** Cross-validation errors drawn over the samples instead of plain markers */
+  residuals?: CrossValidationResidual[];
+  /** Defaults to viridis */
+  colormap?: Colormap;
+  sampling?: RasterSampling;
+  /** Draw contour lines at round values */
+  contours?: boolean;
+  /** Caption under the colorbar */
+  colorbarLabel?: string;
+  /** Report world coordinates on hover; grid cells otherwise */
+  extent?: GridExtent;
+  /** Write each sample's value beside its marker */
+  labelSamples?: boolean;
+  /** Kriging weights of one target, drawn over everything else */
+  weights?: WeightOverlay | null;
+  /** Sample pairs joined by lines, such as those behind a variogram point */
+  pairs?: SamplePair[];
+  /** Outlines such as variogram range ellipses, in grid cells */
+  ellipses?: EllipseOverlay[];
+  /** Receives the clicked cell's position as fractions of the grid size */
+  onClick?: (x: number, y: number) => void;
+  /** Receives the cell under the pointer, and null once it leaves */
+  onHover?: (cell: { x: number; y: number } | null) => void;
+}
+
+export interface WeightOverlay {
+  /** Target cell */
+  x: number;
+  y: number;
+  weights: SampleWeight[];
+}
+
+export interface SamplePair {
+  from: Sample;
+  to: Sample;
+}
+
+export interface EllipseOverlay {
+  /** Center cell */
+  x: number;
+  y: number;
+  /** Semi-axes, in cells */
+  major: number;
+  minor: number;
+  /** Major axis direction in degrees clockwise from north */
+  azimuth: number;
+  color: string;
+}
+
+interface Hover {
+  x: number;
+  y: number;
+  /** Pointer position within the canvas, in CSS pixels */
+  left: number;
+  top: number;
+}
+
+/**
+ * A grid stretched over the canvas, with samples, optional contours, a
+ * colorbar and a readout of the cell under the pointer
+ */
+export function SurfaceVisualization({
+  surface,
+  samples,
+  valueRange,
+  residuals,
+  colormap = valueToColor,
+  sampling = 'nearest',
+  contours = false,
+  colorbarLabel,
+  extent,
+  labelSamples = false,
+  weights,
+  pairs,
+  ellipses,
+  onClick,
+  onHover,
+}: SurfaceVisualizationProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<Hover | null>(null);
+
+  const gridWidth = surface.reduce((max, row) => Math.max(max, row.length), 0) || 1;
+  const gridHeight = surface.length || 1;
+  const scale = CANVAS_SIZE / Math.max(gridWidth, gridHeight);
+  const canvasWidth = Math.round(gridWidth * scale);
+  const canvasHeight = Math.round(gridHeight * scale);
+
+  const [minValue, maxValue] = valueRange ?? surfaceRange(surface);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+
+    // Draw heatmap
+    const pixelData = ctx.createImageData(width, height);
+    paintRaster(
+      pixelData.data,
+      width,
+      height,
+      surface,
+      [minValue, maxValue],
+      colormap,
+      sampling
+    );
+    ctx.putImageData(pixelData, 0, 0);
+
+    // Cell centers sit half a cell in from the cell's corner
+    const toCanvasX = (x: number) => ((x + 0.5) / gridWidth) * width;
+    const toCanvasY = (y: number) => ((y + 0.5) / gridHeight) * height;
+
+    // Draw contours
+    if (contours) {
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.45)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (const level of niceTicks(minValue, maxValue, CONTOUR_COUNT)) {
+        for (const segment of contourSegments(surface, level)) {
+          ctx.moveTo(toCanvasX(segment.x1), toCanvasY(segment.y1));
+          ctx.lineTo(toCanvasX(segment.x2), toCanvasY(segment.y2));
+        }
+      }
+      ctx.stroke();
+    }
+
+    // Draw samples
+    if (residuals) {
+      // Circle area follows the error size; red overestimates, blue underestimates
+      const largest = Math.max(...residuals.map(residual => Math.abs(residual.error)), 1e-6);
+      for (const residual of residuals) {
+        const x = toCanvasX(residual.sample.x);
+        const y = toCanvasY(residual.sample.y);
+        const radius = 3 + 9 * Math.sqrt(Math.abs(residual.error) / largest);
+
+        ctx.fillStyle = residual.error > 0 ? 'rgba(229, 57, 53, 0.8)' : 'rgba(30, 136, 229, 0.8)';
+        ctx.strokeStyle = 'white';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    } else {
+      for (const sample of samples) {
+        const x = toCanvasX(sample.x);
+        const y = toCanvasY(sample.y);
+
+        ctx.strokeStyle = 'red';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(x - 5, y - 5);
+        ctx.lineTo(x + 5, y + 5);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(x + 5, y - 5);
+        ctx.lineTo(x - 5, y + 5);
+        ctx.stroke();
+
+        if (labelSamples) {
+          ctx.font = '11px Arial';
+          ctx.textAlign = 'left';
+          ctx.lineWidth = 3;
+          ctx.strokeStyle = 'white';
+          ctx.strokeText(sample.z.toFixed(1), x + 7, y - 6);
+          ctx.fillStyle = '#333';
+          ctx.fillText(sample.z.toFixed(1), x + 7, y - 6);
+        }
+      }
+    }
+
+    if (weights) drawWeights(ctx, weights, toCanvasX, toCanvasY);
+    if (pairs && pairs.length > 0) drawPairs(ctx, pairs, toCanvasX, toCanvasY);
+    for (const ellipse of ellipses ?? []) {
+      drawEllipse(ctx, ellipse, toCanvasX, toCanvasY, width / gridWidth);
+    }
+  }, [
+    surface,
+    samples,
+    residuals,
+    colormap,
+    sampling,
+    contours,
+    labelSamples,
+    weights,
+    pairs,
+    ellipses,
+    minValue,
+    maxValue,
+    canvasWidth,
+    canvasHeight,
+  ]);
+
+  /** Cell under the pointer, as fractions of the grid and in whole cells */
+  function pointerCell(e: React.MouseEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const fy = (e.clientY - rect.top) / rect.height;
+    return {
+      fx,
+      fy,
+      x: Math.min(Math.max(Math.floor(fx * gridWidth), 0), gridWidth - 1),
+      y: Math.min(Math.max(Math.floor(fy * gridHeight), 0), gridHeight - 1),
+      left: e.clientX - rect.left,
+      top: e.clientY - rect.top,
+    };
+  }
+
+  const hoveredValue = hover ? surface[hover.y]?.[hover.x] : undefined;
+  const hoveredPoint = hover && extent ? gridToWorld(extent, hover.x, hover.y) : hover;
+
+  return (
+    <div className="surface-view">
+      <div className="surface-canvas">
+        <canvas
+          ref={canvasRef}
+          width={canvasWidth}
+          height={canvasHeight}
+          onClick={e => {
+            if (!onClick) return;
+            const { fx, fy } = pointerCell(e);
+            onClick(fx, fy);
+          }}
+          onMouseMove={e => {
+            const { x, y, left, top } = pointerCell(e);
+            setHover({ x, y, left, top });
+            if (onHover && (x !== hover?.x || y !== hover?.y)) onHover({ x, y });
+          }}
+          onMouseLeave={() => {
+            setHover(null);
+            onHover?.(null);
+          }}
+          style={{ border: '1px solid #ccc', cursor: onClick ? 'crosshair' : 'default' }}
+        />
+        {hover && hoveredPoint && (
+          <div className="surface-tooltip" style={{ left: hover.left + 12, top: hover.top + 12 }}>
+            <div>
+              {extent ? 'x' : 'col'} {formatCoordinate(hoveredPoint.x)}, {extent ? 'y' : 'row'}{' '}
+              {formatCoordinate(hoveredPoint.y)}
+            </div>
+            <div>
+              value{' '}
+              {hoveredValue !== undefined && Number.isFinite(hoveredValue)
+                ? hoveredValue.toFixed(2)
+                : '—'}
+            </div>
+          </div>
+        )}
+      </div>
+      <Colorbar
+        colormap={colormap}
+        range={[minValue, maxValue]}
+        width={canvasWidth}
+        label={colorbarLabel}
+      />
+    </div>
+  );
+}
+
+/**
+ * Lines from the target to each sample, and circles whose area follows the
+ * weight: orange for positive weights, blue for negative ones
+ */
+function drawWeights(
+  ctx: CanvasRenderingContext2D,
+  overlay: WeightOverlay,
+  toCanvasX: (x: number) => number,
+  toCanvasY: (y: number) => number
+) {
+  const largest = Math.max(...overlay.weights.map(entry => Math.abs(entry.weight)), 1e-6);
+  const targetX = toCanvasX(overlay.x);
+  const targetY = toCanvasY(overlay.y);
+
+  for (const { sample, weight } of overlay.weights) {
+    ctx.strokeStyle = `rgba(0, 0, 0, ${0.15 + 0.5 * (Math.abs(weight) / largest)})`;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(targetX, targetY);
+    ctx.lineTo(toCanvasX(sample.x), toCanvasY(sample.y));
+    ctx.stroke();
+  }
+
+  ctx.font = '11px Arial';
+  ctx.textAlign = 'left';
+  for (const { sample, weight } of overlay.weights) {
+    const x = toCanvasX(sample.x);
+    const y = toCanvasY(sample.y);
+
+    ctx.fillStyle = weight >= 0 ? 'rgba(230, 81, 0, 0.85)' : 'rgba(21, 101, 192, 0.85)';
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(x, y, 3 + 11 * Math.sqrt(Math.abs(weight) / largest), 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.lineWidth = 3;
+    ctx.strokeText(weight.toFixed(2), x + 8, y + 4);
+    ctx.fillStyle = '#222';
+    ctx.fillText(weight.toFixed(2), x + 8, y + 4);
+  }
+
+  // Target marker
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(targetX, targetY, 6, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.strokeStyle = 'black';
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+}
+
+/**
+ * A line between the two samples of each pair, with both ends ringed
+ */
+function drawPairs(
+  ctx: CanvasRenderingContext2D,
+  pairs: SamplePair[],
+  toCanvasX: (x: number) => number,
+  toCanvasY: (y: number) => number
+) {
+  // Fainter lines when there are many pairs to show
+  const alpha = Math.max(0.9 / Math.sqrt(pairs.length), 0.15);
+  ctx.strokeStyle = `rgba(216, 27, 96, ${alpha})`;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (const { from, to } of pairs) {
+    ctx.moveTo(toCanvasX(from.x), toCanvasY(from.y));
+    ctx.lineTo(toCanvasX(to.x), toCanvasY(to.y));
+  }
+  ctx.stroke();
+
+  ctx.strokeStyle = '#d81b60';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  for (const sample of pairs.flatMap(pair => [pair.from, pair.to])) {
+    const x = toCanvasX(sample.x);
+    const y = toCanvasY(sample.y);
+    ctx.moveTo(x + 7, y);
+    ctx.arc(x, y, 7, 0, Math.PI * 2);
+  }
+  ctx.stroke();
+}
+
+/**
+ * An ellipse outline with its major axis drawn through the center
+ */
+function drawEllipse(
+  ctx: CanvasRenderingContext2D,
+  ellipse: EllipseOverlay,
+  toCanvasX: (x: number) => number,
+  toCanvasY: (y: number) => number,
+  cellSize: number
+) {
+  const x = toCanvasX(ellipse.x);
+  const y = toCanvasY(ellipse.y);
+  const major = ellipse.major * cellSize;
+  // Canvas angles start east and turn clockwise, azimuths start north
+  const rotation = ((ellipse.azimuth - 90) * Math.PI) / 180;
+
+  // A white halo keeps the outline visible on any color
+  for (const color of ['white', ellipse.color]) {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = color === 'white' ? 4 : 2;
+    ctx.beginPath();
+    ctx.ellipse(x, y, major, ellipse.minor * cellSize, rotation, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = ellipse.color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  ctx.beginPath();
+  ctx.moveTo(x - Math.cos(rotation) * major, y - Math.sin(rotation) * major);
+  ctx.lineTo(x + Math.cos(rotation) * major, y + Math.sin(rotation) * major);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+interface ColorbarProps {
+  colormap: Colormap;
+  range: [number, number];
+  width: number;
+  label?: string;
+}
+
+/**
+ * Horizontal color ramp with round tick values
+ */
+function Colorbar({ colormap, range, width, label }: ColorbarProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [min, max] = range;
+  const height = label ? 46 : 32;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const padding = 12;
+    const barWidth = canvas.width - 2 * padding;
+    const barHeight = 12;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Draw ramp
+    for (let i = 0; i < barWidth; i++) {
+      const color = colormap(i / Math.max(barWidth - 1, 1));
+      ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`;
+      ctx.fillRect(padding + i, 0, 1, barHeight);
+    }
+    ctx.strokeStyle = '#999';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(padding + 0.5, 0.5, barWidth - 1, barHeight);
+
+    // Draw ticks
+    const span = max - min || 1;
+    ctx.fillStyle = '#333';
+    ctx.strokeStyle = '#333';
+    ctx.font = '11px Arial';
+    ctx.textAlign = 'center';
+    for (const tick of niceTicks(min, max, 6)) {
+      const x = padding + ((tick - min) / span) * barWidth;
+      ctx.beginPath();
+      ctx.moveTo(x, barHeight);
+      ctx.lineTo(x, barHeight + 4);
+      ctx.stroke();
+      ctx.fillText(formatTick(tick), x, barHeight + 16);
+    }
+
+    if (label) ctx.fillText(label, canvas.width / 2, barHeight + 31);
+  }, [colormap, min, max, label, width]);
+
+  return <canvas ref={canvasRef} width={width} height={height} className="colorbar" />;
+}
+
+function surfaceRange(surface: number[][]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of surface) {
+    for (const value of row) {
+      if (!Number.isFinite(value)) continue;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  return min <= max ? [min, max] : [0, 1];
+}
+
+function formatCoordinate(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toPrecision(6);
+}
+
+/** Drops the rounding noise that stepping through ticks leaves behind */
+function formatTick(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from 'react';
+import { valueToColor } from '../utils/colormap';
+
+const STORAGE_KEY = 'weighted-neighbors:tutorial-seen';
+
+type Illustration = 'surface' | 'samples' | 'variogram';
+
+function tutorialPanels(maxClicks: number): { text: string; illustration: Illustration }[] {
+  return [
+    {
+      text: 'Your mission: Reconstruct the hidden surface beneath.',
+      illustration: 'surface',
+    },
+    {
+      text: `Click to reveal true values. You have ${maxClicks} samples—choose wisely.`,
+      illustration: 'samples',
+    },
+    {
+      text:
+        'Fit the curve to your data by adjusting Nugget, Sill, and Range. ' +
+        'Lower RMSE = better match.',
+      illustration: 'variogram',
+    },
+  ];
+}
+
+/**
+ * Whether the tutorial has been dismissed in this browser before
+ */
+export function hasSeenTutorial(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+interface TutorialProps {
+  /** Sample budget of the current round */
+  maxClicks: number;
+  onClose: () => void;
+}
+
+/**
+ * Three-panel overlay introducing the game
+ */
+export function Tutorial({ maxClicks, onClose }: TutorialProps) {
+  const [panel, setPanel] = useState(0);
+  const panels = tutorialPanels(maxClicks);
+  const last = panels.length - 1;
+
+  function dismiss() {
+    try {
+      localStorage.setItem(STORAGE_KEY, '1');
+    } catch {
+      // Storage may be unavailable; the tutorial will simply show again
+    }
+    onClose();
+  }
+
+  return (
+    <div className="tutorial-overlay" role="dialog" aria-modal="true">
+      <div className="tutorial-panel">
+        <TutorialIllustration kind={panels[panel].illustration} />
+        <p>{panels[panel].text}</p>
+
+        <div className="tutorial-dots">
+          {panels.map((_, i) => (
+            <span key={i} className={i === panel ? 'active' : ''} />
+          ))}
+        </div>
+
+        <div className="control-actions">
+          {panel > 0 && (
+            <button className="btn btn-small btn-secondary" onClick={() => setPanel(panel - 1)}>
+              Back
+            </button>
+          )}
+          {panel < last ? (
+            <button className="btn btn-small" onClick={() => setPanel(panel + 1)}>
+              Next
+            </button>
+          ) : (
+            <button className="btn btn-small" onClick={dismiss}>
+              Got it, let's go!
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TutorialIllustration({ kind }: { kind: Illustration }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    ctx.clearRect(0, 0, width, height);
+
+    if (kind === 'variogram') {
+      drawVariogram(ctx, width, height);
+      return;
+    }
+
+    // A fixed smooth surface; blurred while it is still a mystery
+    const cell = 8;
+    for (let y = 0; y < height; y += cell) {
+      for (let x = 0; x < width; x += cell) {
+        const t =
+          0.5 +
+          0.25 * Math.sin(x / 37) * Math.cos(y / 29) +
+          0.2 * Math.sin((x + y) / 53);
+        const color = valueToColor(Math.min(Math.max(t, 0), 1));
+        ctx.fillStyle = `rgb(${color.r}, ${color.g}, ${color.b})`;
+        ctx.fillRect(x, y, cell, cell);
+      }
+    }
+
+    if (kind === 'samples') {
+      ctx.strokeStyle = 'red';
+      ctx.lineWidth = 2;
+      for (const [x, y] of [
+        [50, 40],
+        [150, 70],
+        [90, 120],
+        [200, 30],
+      ]) {
+        ctx.beginPath();
+        ctx.moveTo(x - 5, y - 5);
+        ctx.lineTo(x + 5, y + 5);
+        ctx.moveTo(x + 5, y - 5);
+        ctx.lineTo(x - 5, y + 5);
+        ctx.stroke();
+      }
+    }
+  }, [kind]);
+
+  return (
+    <div className="tutorial-illustration">
+      <canvas
+        ref={canvasRef}
+        width={240}
+        height={150}
+        className={kind === 'surface' ? 'tutorial-mystery' : undefined}
+      />
+      {kind === 'samples' && <span className="tutorial-click" />}
+    </div>
+  );
+}
+
+function drawVariogram(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const padding = 20;
+  const toX = (h: number) => padding + h * (width - 2 * padding);
+  const toY = (g: number) => height - padding - g * (height - 2 * padding);
+
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(padding, padding);
+  ctx.lineTo(padding, height - padding);
+  ctx.lineTo(width - padding, height - padding);
+  ctx.stroke();
+
+  ctx.fillStyle = 'blue';
+  for (const [h, g] of [
+    [0.08, 0.25],
+    [0.2, 0.45],
+    [0.33, 0.62],
+    [0.47, 0.78],
+    [0.62, 0.8],
+    [0.78, 0.86],
+    [0.92, 0.81],
+  ]) {
+    ctx.beginPath();
+    ctx.arc(toX(h), toY(g), 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Spherical curve: nugget 0.15, sill 0.82, range 0.6
+  ctx.strokeStyle = 'red';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let i = 0; i <= 50; i++) {
+    const h = i / 50;
+    const r = Math.min(h / 0.6, 1);
+    const g = 0.15 + 0.67 * (1.5 * r - 0.5 * r * r * r);
+    if (i === 0) ctx.moveTo(toX(h), toY(g));
+    else ctx.lineTo(toX(h), toY(g));
+  }
+  ctx.stroke();
+}
@@ -0,0 +1,266 @@
+import {
+  DEFAULT_EXPONENT,
+  DEFAULT_SMOOTHNESS,
+  VARIOGRAM_MODELS,
+  VARIOGRAM_MODEL_TYPES,
+  VariogramModelType,
+  VariogramParams,
+  VariogramStructure,
+} from '../utils/variogramModels';
+import { ConceptHint } from './Explainer';
+import { STRUCTURE_COLORS } from './VariogramPlot';
+
+interface VariogramControlsProps {
+  params: VariogramParams;
+  onChange: (params: VariogramParams) => void;
+  /** Fit the current structures to the data; omitted when there is nothing to fit */
+  onAutoFit?: () => void;
+  /** Slider maxima; the defaults suit the synthetic rounds */
+  limits?: VariogramLimits;
+}
+
+/**
+ * Largest partial sill and range the sliders reach. The nugget goes up to a
+ * quarter of the sill limit.
+ */
+export interface VariogramLimits {
+  sill: number;
+  range: number;
+}
+
+const MAX_STRUCTURES = 3;
+
+const DEFAULT_LIMITS: VariogramLimits = { sill: 200, range: 50 };
+
+/**
+ * Slider panel for the nugget and each nested structure
+ */
+export function VariogramControls({
+  params,
+  onChange,
+  onAutoFit,
+  limits = DEFAULT_LIMITS,
+}: VariogramControlsProps) {
+  function updateStructure(index: number, patch: Partial<VariogramStructure>) {
+    onChange({
+      ...params,
+      structures: params.structures.map((structure, i) =>
+        i === index ? { ...structure, ...patch } : structure
+      ),
+    });
+  }
+
+  function addStructure() {
+    const longest = Math.max(...params.structures.map(s => s.range), 10);
+    onChange({
+      ...params,
+      structures: [
+        ...params.structures,
+        {
+          model: 'exponential',
+          sill: limits.sill / 20,
+          range: Math.min(longest * 2, limits.range),
+        },
+      ],
+    });
+  }
+
+  function removeStructure(index: number) {
+    onChange({
+      ...params,
+      structures: params.structures.filter((_, i) => i !== index),
+    });
+  }
+
+  return (
+    <div className="controls">
+      <h3>Variogram Parameters</h3>
+
+      <div className="control-group">
+        <label>
+          Nugget: {params.nugget.toFixed(2)} <ConceptHint concept="nugget" />
+        </label>
+        <input
+          type="range"
+          min="0"
+          max={limits.sill / 4}
+          step={limits.sill / 400}
+          value={params.nugget}
+          onChange={e => onChange({ ...params, nugget: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      {params.structures.map((structure, index) => (
+        <StructureControls
+          key={index}
+          index={index}
+          structure={structure}
+          limits={limits}
+          onChange={patch => updateStructure(index, patch)}
+          onRemove={params.structures.length > 1 ? () => removeStructure(index) : undefined}
+        />
+      ))}
+
+      <div className="control-actions">
+        {params.structures.length < MAX_STRUCTURES && (
+          <button className="btn btn-small" onClick={addStructure}>
+            Add Structure
+          </button>
+        )}
+        <button className="btn btn-small" onClick={onAutoFit} disabled={!onAutoFit}>
+          Auto-fit
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface StructureControlsProps {
+  index: number;
+  structure: VariogramStructure;
+  limits: VariogramLimits;
+  onChange: (patch: Partial<VariogramStructure>) => void;
+  onRemove?: () => void;
+}
+
+function StructureControls({
+  index,
+  structure,
+  limits,
+  onChange,
+  onRemove,
+}: StructureControlsProps) {
+  return (
+    <div
+      className="structure-controls"
+      style={{ borderLeftColor: STRUCTURE_COLORS[index % STRUCTURE_COLORS.length] }}
+    >
+      <div className="structure-header">
+        <h4>Structure {index + 1}</h4>
+        {onRemove && (
+          <button className="btn-link" onClick={onRemove}>
+            Remove
+          </button>
+        )}
+      </div>
+
+      <div className="control-group">
+        <label>Model</label>
+        <select
+          value={structure.model}
+          onChange={e => onChange({ model: e.target.value as VariogramModelType })}
+        >
+          {VARIOGRAM_MODEL_TYPES.map(model => (
+            <option key={model} value={model}>
+              {VARIOGRAM_MODELS[model].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label>
+          Partial Sill: {structure.sill.toFixed(2)} <ConceptHint concept="sill" />
+        </label>
+        <input
+          type="range"
+          min="0"
+          max={limits.sill}
+          step={limits.sill / 200}
+          value={structure.sill}
+          onChange={e => onChange({ sill: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <div className="control-group">
+        <label>
+          {structure.minorRange !== undefined ? 'Major Range' : 'Range'}:{' '}
+          {structure.range.toFixed(2)} <ConceptHint concept="range" />
+        </label>
+        <input
+          type="range"
+          min="1"
+          max={limits.range}
+          step={limits.range / 100}
+          value={structure.range}
+          onChange={e => onChange({ range: parseFloat(e.target.value) })}
+        />
+      </div>
+
+      <div className="control-group">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={structure.minorRange !== undefined}
+            onChange={e =>
+              onChange(
+                e.target.checked
+                  ? { minorRange: structure.range, azimuth: 0 }
+                  : { minorRange: undefined, azimuth: undefined }
+              )
+            }
+          />
+          Anisotropic
+        </label>
+      </div>
+
+      {structure.minorRange !== undefined && (
+        <>
+          <div className="control-group">
+            <label>Minor Range: {structure.minorRange.toFixed(2)}</label>
+            <input
+              type="range"
+              min="1"
+              max={limits.range}
+              step={limits.range / 100}
+              value={structure.minorRange}
+              onChange={e => onChange({ minorRange: parseFloat(e.target.value) })}
+            />
+          </div>
+
+          <div className="control-group">
+            <label>Azimuth: {(structure.azimuth ?? 0).toFixed(0)}°</label>
+            <input
+              type="range"
+              min="0"
+              max="179"
+              step="1"
+              value={structure.azimuth ?? 0}
+              onChange={e => onChange({ azimuth: parseFloat(e.target.value) })}
+            />
+          </div>
+        </>
+      )}
+
+      {structure.model === 'matern' && (
+        <div className="control-group">
+          <label>
+            Smoothness (ν): {(structure.smoothness ?? DEFAULT_SMOOTHNESS).toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min="0.2"
+            max="5"
+            step="0.1"
+            value={structure.smoothness ?? DEFAULT_SMOOTHNESS}
+            onChange={e => onChange({ smoothness: parseFloat(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {structure.model === 'power' && (
+        <div className="control-group">
+          <label>Exponent: {(structure.exponent ?? DEFAULT_EXPONENT).toFixed(2)}</label>
+          <input
+            type="range"
+            min="0.1"
+            max="1.9"
+            step="0.05"
+            value={structure.exponent ?? DEFAULT_EXPONENT}
+            onChange={e => onChange({ exponent: parseFloat(e.target.value) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
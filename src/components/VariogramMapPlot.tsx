@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { Colormap } from '../utils/colormap';
+import { VariogramMap } from '../utils/kriging';
+import { RasterSampling } from '../utils/raster';
+import { GridExtent } from '../utils/sampleImport';
+import { VARIOGRAM_MODELS, VariogramParams, totalSill } from '../utils/variogramModels';
+import { EllipseOverlay, SurfaceVisualization } from './SurfaceVisualization';
+import { STRUCTURE_COLORS } from './VariogramPlot';
+
+interface VariogramMapPlotProps {
+  map: VariogramMap;
+  params: VariogramParams;
+  colormap?: Colormap;
+  sampling?: RasterSampling;
+  contours?: boolean;
+}
+
+/**
+ * Semivariance over (dx, dy) lags with zero lag in the middle, under the range
+ * ellipse of each bounded structure. Low values stretch along the direction of
+ * greatest continuity, which the major axis should follow.
+ */
+export function VariogramMapPlot({ map, params, ...style }: VariogramMapPlotProps) {
+  const size = 2 * map.radius + 1;
+  // Hover reads out the lag, with north up and positive
+  const extent: GridExtent = {
+    xmin: -map.radius * map.cellSize,
+    ymax: map.radius * map.cellSize,
+    cellSize: map.cellSize,
+    width: size,
+    height: size,
+  };
+
+  const highest = map.values.reduce(
+    (max, row) => row.reduce((rowMax, value) => (value > rowMax ? value : rowMax), max),
+    0
+  );
+
+  const ellipses = useMemo<EllipseOverlay[]>(
+    () =>
+      params.structures.flatMap((structure, i) =>
+        VARIOGRAM_MODELS[structure.model].bounded
+          ? [
+              {
+                x: map.radius,
+                y: map.radius,
+                major: structure.range / map.cellSize,
+                minor: (structure.minorRange ?? structure.range) / map.cellSize,
+                azimuth: structure.azimuth ?? 0,
+                color: STRUCTURE_COLORS[i % STRUCTURE_COLORS.length],
+              },
+            ]
+          : []
+      ),
+    [params, map]
+  );
+
+  return (
+    <SurfaceVisualization
+      {...style}
+      surface={map.values}
+      samples={[]}
+      valueRange={[0, Math.max(highest, totalSill(params))]}
+      extent={extent}
+      ellipses={ellipses}
+      colorbarLabel="semivariance (blank: no pairs)"
+    />
+  );
+}
@@ -0,0 +1,437 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_LAGS, VariogramPair } from '../utils/kriging';
+import {
+  VARIOGRAM_MODELS,
+  VariogramParams,
+  evaluateStructure,
+  evaluateVariogram,
+  maxRange,
+  totalSill,
+} from '../utils/variogramModels';
+import { ConceptId } from './Explainer';
+
+/** Colors for each nested structure's component curve */
+export const STRUCTURE_COLORS = ['#ff9800', '#4caf50', '#9c27b0'];
+
+/**
+ * Empirical semivariogram restricted to one direction
+ */
+export interface DirectionalSeries {
+  label: string;
+  /** Degrees clockwise from north */
+  azimuth: number;
+  color: string;
+  points: { distance: number; semivariance: number }[];
+}
+
+/**
+ * One lag bin of an empirical semivariogram
+ */
+export interface EmpiricalPoint {
+  distance: number;
+  semivariance: number;
+  /** Number of sample pairs averaged into the bin */
+  pairs?: number;
+  /** Standard deviation of those pairs, drawn as an error bar */
+  spread?: number;
+}
+
+/** A point of the chart under the pointer: a lag bin or one cloud pair */
+export type VariogramTarget =
+  | { kind: 'bin'; point: EmpiricalPoint }
+  | { kind: 'pair'; pair: VariogramPair };
+
+interface VariogramPlotProps {
+  empirical: EmpiricalPoint[];
+  directional?: DirectionalSeries[];
+  params: VariogramParams;
+  /** Concept whose part of the chart is picked out */
+  highlight?: ConceptId | null;
+  /** Spacing between bin centers */
+  lagWidth?: number;
+  /** Every sample pair, drawn as faint dots behind the bins */
+  cloud?: VariogramPair[] | null;
+  /** Receives the bin or pair under the pointer, and null once it leaves */
+  onHover?: (target: VariogramTarget | null) => void;
+}
+
+/** A pickable point at its position on the canvas */
+interface PlacedTarget {
+  x: number;
+  y: number;
+  target: VariogramTarget;
+}
+
+/** How close the pointer must come to a point to pick it, in canvas pixels */
+const HOVER_RADIUS = 6;
+/** Most cloud pairs drawn; larger clouds are thinned evenly */
+const MAX_CLOUD_POINTS = 5000;
+
+const HIGHLIGHT_FILL = 'rgba(255, 193, 7, 0.3)';
+const HIGHLIGHT_STROKE = '#f57c00';
+
+export function VariogramPlot({
+  empirical,
+  directional = [],
+  params,
+  highlight = null,
+  lagWidth = DEFAULT_LAGS.width,
+  cloud = null,
+  onHover,
+}: VariogramPlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Canvas positions of the pickable points, bins first, from the last draw
+  const targetsRef = useRef<PlacedTarget[]>([]);
+  const [hovered, setHovered] = useState<PlacedTarget | null>(null);
+  const cloudStride = cloud ? Math.ceil(cloud.length / MAX_CLOUD_POINTS) : 1;
+  const shownCloud = useMemo(
+    () => (cloud && cloudStride > 1 ? cloud.filter((_, i) => i % cloudStride === 0) : cloud),
+    [cloud, cloudStride]
+  );
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    const padding = 40;
+
+    // Clear
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+
+    // Calculate bounds
+    const allPoints = [...empirical, ...directional.flatMap(series => series.points)];
+    const maxDistance = Math.max(...allPoints.map(e => e.distance), maxRange(params) * 1.5);
+    const maxSemivariance = Math.max(
+      ...allPoints.map(e => e.semivariance),
+      (cloud ?? []).reduce((max, pair) => Math.max(max, pair.semivariance), 0),
+      totalSill(params) * 1.2
+    );
+
+    const plotWidth = width - padding * 2;
+    const plotHeight = height - padding * 2;
+
+    // Draw axes
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding, height - padding);
+    ctx.lineTo(width - padding, height - padding);
+    ctx.lineTo(width - padding, padding);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#000';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('Distance', width / 2, height - 10);
+    ctx.save();
+    ctx.translate(15, height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText('Semivariance', 0, 0);
+    ctx.restore();
+
+    // Helper to convert data coords to canvas coords
+    const toCanvasX = (d: number) => padding + (d / maxDistance) * plotWidth;
+    const toCanvasY = (s: number) => height - padding - (s / maxSemivariance) * plotHeight;
+
+    const drawCurve = (evaluate: (distance: number) => number) => {
+      ctx.beginPath();
+      for (let i = 0; i <= 100; i++) {
+        const distance = (i / 100) * maxDistance;
+        const x = toCanvasX(distance);
+        const y = toCanvasY(evaluate(distance));
+
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+      ctx.stroke();
+    };
+
+    // Pick out the region a concept explainer refers to, beneath the data
+    const sill = totalSill(params);
+    ctx.fillStyle = HIGHLIGHT_FILL;
+    if (highlight === 'nugget') {
+      ctx.fillRect(padding, toCanvasY(params.nugget), 12, toCanvasY(0) - toCanvasY(params.nugget));
+    } else if (highlight === 'sill') {
+      ctx.fillRect(padding, toCanvasY(sill) - 4, plotWidth, 8);
+    } else if (highlight === 'range') {
+      ctx.fillRect(padding, padding, toCanvasX(maxRange(params)) - padding, plotHeight);
+    } else if (highlight === 'bins' && empirical.length > 0) {
+      // Alternate bands centred on each bin, counting the empty ones too
+      for (const point of empirical) {
+        if (Math.round(point.distance / lagWidth - 0.5) % 2 === 0) {
+          const left = toCanvasX(Math.max(point.distance - lagWidth / 2, 0));
+          ctx.fillRect(left, padding, toCanvasX(point.distance + lagWidth / 2) - left, plotHeight);
+        }
+      }
+    }
+
+    // Draw the cloud of raw pairs
+    const targets: PlacedTarget[] = [];
+    const cloudTargets: PlacedTarget[] = [];
+    if (shownCloud) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      for (const pair of shownCloud) {
+        const x = toCanvasX(pair.distance);
+        const y = toCanvasY(pair.semivariance);
+        ctx.fillRect(x - 1.5, y - 1.5, 3, 3);
+        cloudTargets.push({ x, y, target: { kind: 'pair', pair } });
+      }
+    }
+
+    // Draw spread of each bin, clipped to the plot
+    ctx.strokeStyle = 'rgba(0, 0, 255, 0.35)';
+    ctx.lineWidth = 1.5;
+    for (const point of empirical) {
+      if (!point.spread) continue;
+      const x = toCanvasX(point.distance);
+      const top = Math.max(toCanvasY(point.semivariance + point.spread), padding);
+      const bottom = Math.min(toCanvasY(point.semivariance - point.spread), height - padding);
+      ctx.beginPath();
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, bottom);
+      ctx.moveTo(x - 3, top);
+      ctx.lineTo(x + 3, top);
+      ctx.moveTo(x - 3, bottom);
+      ctx.lineTo(x + 3, bottom);
+      ctx.stroke();
+    }
+
+    // Draw empirical points, with their pair counts
+    ctx.font = '9px Arial';
+    ctx.textAlign = 'left';
+    for (const point of empirical) {
+      const x = toCanvasX(point.distance);
+      const y = toCanvasY(point.semivariance);
+      ctx.fillStyle = 'blue';
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+      targets.push({ x, y, target: { kind: 'bin', point } });
+
+      if (point.pairs !== undefined && highlight !== 'bins') {
+        ctx.fillStyle = '#555';
+        ctx.fillText(String(point.pairs), x + 5, y - 5);
+      }
+    }
+    targetsRef.current = [...targets, ...cloudTargets];
+
+    // Ring the point under the pointer
+    if (hovered) {
+      ctx.strokeStyle = '#d81b60';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(hovered.x, hovered.y, 7, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Draw directional points and the model along each direction
+    for (const series of directional) {
+      ctx.fillStyle = series.color;
+      for (const point of series.points) {
+        const x = toCanvasX(point.distance);
+        const y = toCanvasY(point.semivariance);
+        ctx.fillRect(x - 3.5, y - 3.5, 7, 7);
+      }
+
+      ctx.strokeStyle = series.color;
+      ctx.lineWidth = 1.5;
+      drawCurve(distance => evaluateVariogram(distance, params, series.azimuth));
+    }
+
+    // Draw each component on its own, dashed
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([5, 4]);
+    if (params.nugget > 0) {
+      ctx.strokeStyle = '#888';
+      drawCurve(() => params.nugget);
+    }
+    params.structures.forEach((structure, i) => {
+      ctx.strokeStyle = STRUCTURE_COLORS[i % STRUCTURE_COLORS.length];
+      drawCurve(distance => evaluateStructure(distance, structure));
+    });
+    ctx.setLineDash([]);
+
+    // Draw combined model curve
+    ctx.strokeStyle = 'red';
+    ctx.lineWidth = 2;
+    drawCurve(distance => evaluateVariogram(distance, params));
+
+    // Highlight marks that belong on top of the curves
+    ctx.strokeStyle = HIGHLIGHT_STROKE;
+    ctx.fillStyle = HIGHLIGHT_STROKE;
+    ctx.lineWidth = 2;
+    ctx.font = '11px Arial';
+    ctx.textAlign = 'center';
+    if (highlight === 'sill') {
+      ctx.setLineDash([6, 3]);
+      ctx.beginPath();
+      ctx.moveTo(padding, toCanvasY(sill));
+      ctx.lineTo(width - padding, toCanvasY(sill));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    } else if (highlight === 'range') {
+      ctx.setLineDash([6, 3]);
+      ctx.beginPath();
+      ctx.moveTo(toCanvasX(maxRange(params)), padding);
+      ctx.lineTo(toCanvasX(maxRange(params)), height - padding);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    } else if (highlight === 'nugget') {
+      ctx.beginPath();
+      ctx.arc(toCanvasX(0), toCanvasY(params.nugget), 6, 0, Math.PI * 2);
+      ctx.stroke();
+    } else if (highlight === 'bins') {
+      for (const point of empirical) {
+        if (point.pairs !== undefined) {
+          const x = toCanvasX(point.distance);
+          ctx.fillText(String(point.pairs), x, toCanvasY(point.semivariance) - 8);
+        }
+      }
+    }
+
+    // Draw legend
+    ctx.fillStyle = 'blue';
+    ctx.fillRect(width - 120, 10, 10, 10);
+    ctx.fillStyle = '#000';
+    ctx.font = '12px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText('Empirical', width - 105, 18);
+
+    // Rows below the first, each 17px apart
+    let legendRow = 35;
+    if (cloud) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      ctx.fillRect(width - 120, legendRow - 5, 10, 10);
+      ctx.fillStyle = '#000';
+      ctx.fillText(
+        cloudStride > 1 ? `Pair cloud (1 in ${cloudStride})` : 'Pair cloud',
+        width - 105,
+        legendRow + 3
+      );
+      legendRow += 17;
+    }
+
+    const directionalTop = legendRow;
+    const legendTop = directionalTop + directional.length * 17;
+    directional.forEach((series, i) => {
+      const y = directionalTop + i * 17;
+      ctx.fillStyle = series.color;
+      ctx.fillRect(width - 120, y - 5, 10, 10);
+      ctx.fillStyle = '#000';
+      ctx.fillText(`${series.label} ${series.azimuth.toFixed(0)}°`, width - 105, y + 3);
+    });
+
+    const legendLines: { color: string; label: string; dashed: boolean }[] = [
+      { color: 'red', label: 'Model', dashed: false },
+    ];
+    if (params.nugget > 0) {
+      legendLines.push({ color: '#888', label: 'Nugget', dashed: true });
+    }
+    params.structures.forEach((structure, i) => {
+      legendLines.push({
+        color: STRUCTURE_COLORS[i % STRUCTURE_COLORS.length],
+        label: VARIOGRAM_MODELS[structure.model].label,
+        dashed: true,
+      });
+    });
+
+    legendLines.forEach((line, i) => {
+      const y = legendTop + i * 17;
+      ctx.strokeStyle = line.color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash(line.dashed ? [4, 3] : []);
+      ctx.beginPath();
+      ctx.moveTo(width - 120, y);
+      ctx.lineTo(width - 105, y);
+      ctx.stroke();
+      ctx.fillStyle = '#000';
+      ctx.fillText(line.label, width - 100, y + 3);
+    });
+    ctx.setLineDash([]);
+  }, [
+    empirical,
+    directional,
+    params,
+    highlight,
+    lagWidth,
+    cloud,
+    shownCloud,
+    cloudStride,
+    hovered,
+  ]);
+
+  /** Nearest pickable point to the pointer, bins taking precedence */
+  function pointerTarget(e: React.MouseEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+
+    let nearest: PlacedTarget | null = null;
+    let nearestDistance = HOVER_RADIUS;
+    for (const candidate of targetsRef.current) {
+      const distance = Math.hypot(candidate.x - x, candidate.y - y);
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+      // Stop at the bins when one is close enough
+      if (nearest?.target.kind === 'bin' && candidate.target.kind === 'pair') break;
+    }
+    return nearest;
+  }
+
+  return (
+    <div className="surface-canvas">
+      <canvas
+        ref={canvasRef}
+        width={400}
+        height={300}
+        onMouseMove={e => {
+          const next = pointerTarget(e);
+          if (next?.target !== hovered?.target) {
+            setHovered(next);
+            onHover?.(next?.target ?? null);
+          }
+        }}
+        onMouseLeave={() => {
+          setHovered(null);
+          onHover?.(null);
+        }}
+        style={{ border: '1px solid #ccc' }}
+      />
+      {hovered && (
+        <div className="surface-tooltip" style={{ left: hovered.x + 12, top: hovered.y + 12 }}>
+          {hovered.target.kind === 'bin' ? (
+            <>
+              <div>lag {hovered.target.point.distance.toFixed(1)}</div>
+              <div>
+                γ {hovered.target.point.semivariance.toFixed(2)}
+                {hovered.target.point.spread !== undefined &&
+                  ` ± ${hovered.target.point.spread.toFixed(2)}`}
+              </div>
+              {hovered.target.point.pairs !== undefined && (
+                <div>{hovered.target.point.pairs} pairs</div>
+              )}
+            </>
+          ) : (
+            <>
+              <div>distance {hovered.target.pair.distance.toFixed(1)}</div>
+              <div>γ {hovered.target.pair.semivariance.toFixed(2)}</div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { KrigingWeights, WeightingMethod } from '../utils/kriging';
+
+interface WeightsInspectorProps {
+  /** Target cell */
+  x: number;
+  y: number;
+  result: KrigingWeights;
+  pinned: boolean;
+  onUnpin: () => void;
+}
+
+const METHOD_NOTES: Record<WeightingMethod, string> = {
+  kriging: '',
+  sample: 'The target is a sample, so it takes that value exactly.',
+  idw: 'The kriging system is singular here; inverse distance weights are used instead.',
+  mean: 'No samples are in range, so the estimate falls back to the mean.',
+};
+
+/**
+ * Breakdown of one estimate: each sample's weight and contribution, and the
+ * Lagrange multipliers of the constraints
+ */
+export function WeightsInspector({ x, y, result, pinned, onUnpin }: WeightsInspectorProps) {
+  const rows = result.weights
+    .map(entry => ({
+      ...entry,
+      distance: Math.hypot(entry.sample.x - x, entry.sample.y - y),
+    }))
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight));
+  const weightSum = result.weights.reduce((sum, entry) => sum + entry.weight, 0);
+  const negativeCount = rows.filter(row => row.weight < 0).length;
+
+  return (
+    <div className="weights-inspector">
+      <div className="control-actions">
+        <span>
+          Target ({x}, {y}) — estimate <strong>{result.estimate.toFixed(2)}</strong>,
+          variance {result.variance.toFixed(2)}
+        </span>
+        {pinned && (
+          <button className="btn btn-small btn-secondary" onClick={onUnpin}>
+            Unpin
+          </button>
+        )}
+      </div>
+
+      {METHOD_NOTES[result.method] && <p>{METHOD_NOTES[result.method]}</p>}
+
+      {result.method === 'kriging' && (
+        <p>
+          Σ weights = {weightSum.toFixed(3)}
+          {result.lagrange.length > 0 &&
+            `, Lagrange ${result.lagrange.length === 1 ? 'multiplier μ' : 'multipliers'} = ` +
+              result.lagrange.map(mu => mu.toFixed(3)).join(', ')}
+          {result.lagrange.length === 0 &&
+            `, the remaining ${(1 - weightSum).toFixed(3)} goes to the known mean`}
+          {negativeCount > 0 &&
+            ` — ${negativeCount} negative ${negativeCount === 1 ? 'weight' : 'weights'}: ` +
+              'closer samples screen these ones off'}
+        </p>
+      )}
+
+      <table className="param-comparison">
+        <thead>
+          <tr>
+            <th>Sample</th>
+            <th>Value</th>
+            <th>Distance</th>
+            <th>Weight</th>
+            <th>Weight × Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr
+              key={`${row.sample.x},${row.sample.y}`}
+              className={row.weight < 0 ? 'negative' : ''}
+            >
+              <td>
+                ({row.sample.x}, {row.sample.y})
+              </td>
+              <td>{row.sample.z.toFixed(2)}</td>
+              <td>{row.distance.toFixed(1)}</td>
+              <td>{row.weight.toFixed(3)}</td>
+              <td>{(row.weight * row.sample.z).toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
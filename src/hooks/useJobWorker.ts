@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { JobError, JobRequest } from '../workers/jobProtocol';
+
+interface JobHandlers<Progress, Result> {
+  onProgress: (progress: Progress) => void;
+  onResult: (result: Result) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Owns a job worker. Each call to `run` supersedes the previous job; messages
+ * from stale jobs are dropped. Failures, including the worker itself failing
+ * to load, reach `onError`.
+ */
+export function useJobWorker<
+  Job,
+  Progress extends { type: 'progress'; jobId: number },
+  Result extends { type: 'result'; jobId: number },
+>(createWorker: () => Worker, handlers: JobHandlers<Progress, Result>) {
+  const workerRef = useRef<Worker | null>(null);
+  const latestJobRef = useRef(0);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const worker = createWorker();
+
+    worker.onmessage = (event: MessageEvent<Progress | Result | JobError>) => {
+      const message = event.data;
+      if (message.jobId !== latestJobRef.current) return;
+
+      if (message.type === 'progress') {
+        handlersRef.current.onProgress(message as Progress);
+      } else if (message.type === 'result') {
+        handlersRef.current.onResult(message as Result);
+      } else {
+        handlersRef.current.onError?.(message.message);
+      }
+    };
+    worker.onerror = event => {
+      handlersRef.current.onError?.(event.message || 'The worker stopped unexpectedly');
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const send = (request: JobRequest<Job>) => workerRef.current?.postMessage(request);
+
+  const run = useCallback((job: Job) => {
+    latestJobRef.current++;
+    send({ type: 'run', jobId: latestJobRef.current, ...job });
+  }, []);
+
+  const cancel = useCallback(() => {
+    latestJobRef.current++;
+    send({ type: 'cancel', jobId: latestJobRef.current });
+  }, []);
+
+  return { run, cancel };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import { PredictionJob, PredictionResult } from '../workers/predictionProtocol';
+import { usePredictionWorker } from './usePredictionWorker';
+
+/**
+ * Runs a list of prediction jobs one after another on a worker of its own,
+ * for surfaces that are only wanted once complete. A new list supersedes the
+ * one running; null runs nothing. Results come back in job order, so a job
+ * is done once its index is within `results`.
+ */
+export function usePredictionQueue(jobs: PredictionJob[] | null) {
+  const [results, setResults] = useState<PredictionResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const doneRef = useRef<PredictionResult[]>([]);
+
+  const worker = usePredictionWorker({
+    onProgress: () => undefined,
+    onResult: result => {
+      const done = [...doneRef.current, result];
+      doneRef.current = done;
+      setResults(done);
+
+      const next = jobsRef.current?.[done.length];
+      if (next) worker.predict(next);
+    },
+    onError: setError,
+  });
+
+  useEffect(() => {
+    doneRef.current = [];
+    setResults([]);
+    setError(null);
+
+    if (jobs && jobs.length > 0) {
+      worker.predict(jobs[0]);
+    } else {
+      worker.cancel();
+    }
+  }, [jobs]);
+
+  return { results, error };
+}
@@ -0,0 +1,25 @@
+import {
+  PredictionJob,
+  PredictionProgress,
+  PredictionResult,
+} from '../workers/predictionProtocol';
+import { useJobWorker } from './useJobWorker';
+
+interface PredictionHandlers {
+  onProgress: (progress: PredictionProgress) => void;
+  onResult: (result: PredictionResult) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Owns the prediction worker. Each call to `predict` supersedes the previous
+ * job; messages from stale jobs are dropped.
+ */
+export function usePredictionWorker(handlers: PredictionHandlers) {
+  const { run, cancel } = useJobWorker<PredictionJob, PredictionProgress, PredictionResult>(
+    () =>
+      new Worker(new URL('../workers/prediction.worker.ts', import.meta.url), { type: 'module' }),
+    handlers
+  );
+  return { predict: run, cancel };
+}
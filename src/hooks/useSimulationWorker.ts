@@ -0,0 +1,25 @@
+import {
+  SimulationJob,
+  SimulationProgress,
+  SimulationResult,
+} from '../workers/simulationProtocol';
+import { useJobWorker } from './useJobWorker';
+
+interface SimulationHandlers {
+  onProgress: (progress: SimulationProgress) => void;
+  onResult: (result: SimulationResult) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Owns the simulation worker. Each call to `simulate` supersedes the previous
+ * job; messages from stale jobs are dropped.
+ */
+export function useSimulationWorker(handlers: SimulationHandlers) {
+  const { run, cancel } = useJobWorker<SimulationJob, SimulationProgress, SimulationResult>(
+    () =>
+      new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' }),
+    handlers
+  );
+  return { simulate: run, cancel };
+}
@@ -0,0 +1,170 @@
+/**
+ * Campaign levels: fixed round rules that unlock one after another, with
+ * progress kept in the browser
+ */
+
+import { RoundSettings, createRoundSettings, formatRoundSettings } from './roundSettings';
+import { TrendShape, TruthCharacter } from './surfaceGenerator';
+import { VariogramModelType } from './variogramModels';
+
+export interface Level {
+  id: string;
+  title: string;
+  /** What the level is meant to teach */
+  goal: string;
+  size: number;
+  maxClicks: number;
+  /** Target RMSE as a fraction of the truth's standard deviation */
+  targetFraction: number;
+  truthModel: VariogramModelType;
+  character: TruthCharacter;
+  anisotropic: boolean;
+  trend: TrendShape;
+}
+
+export const LEVELS: Level[] = [
+  {
+    id: 'first-steps',
+    title: 'First Steps',
+    goal: 'Spread your samples out and fit a sill that matches the plateau of the dots.',
+    size: 48,
+    maxClicks: 14,
+    targetFraction: 0.2,
+    truthModel: 'spherical',
+    character: 'long-smooth',
+    anisotropic: false,
+    trend: 'none',
+  },
+  {
+    id: 'standard',
+    title: 'The Standard Round',
+    goal: 'Read the range off the semivariogram: where do the dots stop rising?',
+    size: 64,
+    maxClicks: 10,
+    targetFraction: 0.15,
+    truthModel: 'spherical',
+    character: 'typical',
+    anisotropic: false,
+    trend: 'none',
+  },
+  {
+    id: 'noisy',
+    title: 'Static on the Line',
+    goal:
+      'A short range and a high nugget: close samples still disagree. Raise the nugget ' +
+      'instead of chasing every value.',
+    size: 64,
+    maxClicks: 16,
+    targetFraction: 0.25,
+    truthModel: 'exponential',
+    character: 'short-noisy',
+    anisotropic: false,
+    trend: 'none',
+  },
+  {
+    id: 'smooth',
+    title: 'Rolling Hills',
+    goal: 'A smooth Gaussian surface rewards a matching model shape near the origin.',
+    size: 64,
+    maxClicks: 8,
+    targetFraction: 0.12,
+    truthModel: 'gaussian',
+    character: 'long-smooth',
+    anisotropic: false,
+    trend: 'none',
+  },
+  {
+    id: 'grain',
+    title: 'Against the Grain',
+    goal:
+      'Strong anisotropy: compare directional semivariograms and set the minor range ' +
+      'and azimuth.',
+    size: 64,
+    maxClicks: 14,
+    targetFraction: 0.15,
+    truthModel: 'spherical',
+    character: 'elongated',
+    anisotropic: true,
+    trend: 'none',
+  },
+  {
+    id: 'drift',
+    title: 'Uphill Battle',
+    goal: 'A regional trend inflates the semivariogram. Try universal kriging with a drift.',
+    size: 80,
+    maxClicks: 14,
+    targetFraction: 0.15,
+    truthModel: 'spherical',
+    character: 'typical',
+    anisotropic: false,
+    trend: 'linear',
+  },
+];
+
+const STORAGE_KEY = 'weighted-neighbors:campaign';
+
+export function findLevel(id: string | null): Level | null {
+  return LEVELS.find(level => level.id === id) ?? null;
+}
+
+/**
+ * Round settings for a level on a fresh surface
+ */
+export function levelSettings(level: Level): RoundSettings {
+  return createRoundSettings({
+    size: level.size,
+    maxClicks: level.maxClicks,
+    targetFraction: level.targetFraction,
+    truthModel: level.truthModel,
+    character: level.character,
+    anisotropic: level.anisotropic,
+    trend: level.trend,
+    level: level.id,
+  });
+}
+
+/**
+ * The first level is always open; each later one opens once the level
+ * before it is cleared
+ */
+export function isLevelUnlocked(index: number, cleared: string[]): boolean {
+  return index === 0 || cleared.includes(LEVELS[index - 1]?.id);
+}
+
+/**
+ * The level a won round clears: one played by that level's own rules, on any
+ * seed, and only once the level is unlocked. A shared link naming a level but
+ * with other rules clears nothing.
+ */
+export function clearableLevel(settings: RoundSettings, cleared: string[]): Level | null {
+  const index = LEVELS.findIndex(level => level.id === settings.level);
+  if (index < 0 || !isLevelUnlocked(index, cleared)) return null;
+
+  const rules = { ...levelSettings(LEVELS[index]), seed: settings.seed };
+  return formatRoundSettings(rules) === formatRoundSettings(settings) ? LEVELS[index] : null;
+}
+
+/**
+ * Ids of the levels cleared in this browser
+ */
+export function loadClearedLevels(): string[] {
+  try {
+    const cleared = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(cleared) ? cleared.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function markLevelCleared(id: string): string[] {
+  const cleared = loadClearedLevels();
+  if (cleared.includes(id)) return cleared;
+
+  const updated = [...cleared, id];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch {
+    // Storage may be unavailable; progress then lasts for this visit only
+  }
+  return updated;
+}
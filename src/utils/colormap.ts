@@ -0,0 +1,135 @@
+/**
+ * Colormaps for surface rendering
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/** Maps t in [0, 1] to a color */
+export type Colormap = (t: number) => Rgb;
+
+/**
+ * Viridis color at t in [0, 1]
+ */
+export function valueToColor(t: number): Rgb {
+  // Viridis colormap
+  const colors = [
+    { r: 68, g: 1, b: 84 },
+    { r: 71, g: 16, b: 99 },
+    { r: 70, g: 33, b: 102 },
+    { r: 68, g: 51, b: 101 },
+    { r: 64, g: 69, b: 97 },
+    { r: 57, g: 87, b: 100 },
+    { r: 48, g: 104, b: 107 },
+    { r: 37, g: 121, b: 110 },
+    { r: 26, g: 137, b: 110 },
+    { r: 16, g: 154, b: 108 },
+    { r: 13, g: 170, b: 102 },
+    { r: 27, g: 186, b: 91 },
+    { r: 49, g: 202, b: 75 },
+    { r: 77, g: 216, b: 54 },
+    { r: 115, g: 228, b: 29 },
+    { r: 163, g: 238, b: 9 },
+    { r: 216, g: 244, b: 20 },
+    { r: 254, g: 246, b: 52 },
+  ];
+
+  return interpolateStops(colors, t);
+}
+
+/**
+ * Plasma color at t in [0, 1]
+ */
+export function plasma(t: number): Rgb {
+  return interpolateStops(
+    [
+      { r: 13, g: 8, b: 135 },
+      { r: 75, g: 3, b: 161 },
+      { r: 125, g: 3, b: 168 },
+      { r: 168, g: 34, b: 150 },
+      { r: 203, g: 70, b: 121 },
+      { r: 229, g: 107, b: 93 },
+      { r: 248, g: 148, b: 65 },
+      { r: 253, g: 195, b: 40 },
+      { r: 240, g: 249, b: 33 },
+    ],
+    t
+  );
+}
+
+/**
+ * Light-to-dark gray, for context that should not compete with data
+ */
+export function grayscale(t: number): Rgb {
+  const level = Math.round(235 - 120 * t);
+  return { r: level, g: level, b: level };
+}
+
+/**
+ * Diverging blue–white–red, with white at t = 0.5
+ */
+export function divergingColor(t: number): Rgb {
+  return interpolateStops(
+    [
+      { r: 33, g: 102, b: 172 },
+      { r: 247, g: 247, b: 247 },
+      { r: 178, g: 24, b: 43 },
+    ],
+    t
+  );
+}
+
+/**
+ * Diverging brown–white–teal, with white at t = 0.5
+ */
+export function brownTeal(t: number): Rgb {
+  return interpolateStops(
+    [
+      { r: 140, g: 81, b: 10 },
+      { r: 216, g: 179, b: 101 },
+      { r: 245, g: 245, b: 245 },
+      { r: 90, g: 180, b: 172 },
+      { r: 1, g: 102, b: 94 },
+    ],
+    t
+  );
+}
+
+export type ColormapName = 'viridis' | 'plasma' | 'grayscale' | 'blue-red' | 'brown-teal';
+
+export interface ColormapChoice {
+  label: string;
+  /** Diverging maps suit values centered on zero, such as residuals */
+  diverging: boolean;
+  colormap: Colormap;
+}
+
+export const COLORMAPS: Record<ColormapName, ColormapChoice> = {
+  viridis: { label: 'Viridis', diverging: false, colormap: valueToColor },
+  plasma: { label: 'Plasma', diverging: false, colormap: plasma },
+  grayscale: { label: 'Grayscale', diverging: false, colormap: grayscale },
+  'blue-red': { label: 'Blue–Red', diverging: true, colormap: divergingColor },
+  'brown-teal': { label: 'Brown–Teal', diverging: true, colormap: brownTeal },
+};
+
+export const COLORMAP_NAMES = Object.keys(COLORMAPS) as ColormapName[];
+
+/**
+ * Linear interpolation between evenly spaced color stops
+ */
+function interpolateStops(stops: Rgb[], t: number): Rgb {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  const idx = Math.min(stops.length - 2, Math.floor(clamped * (stops.length - 1)));
+  const a = stops[idx];
+  const b = stops[idx + 1];
+  const frac = clamped * (stops.length - 1) - idx;
+
+  return {
+    r: Math.round(a.r + (b.r - a.r) * frac),
+    g: Math.round(a.g + (b.g - a.g) * frac),
+    b: Math.round(a.b + (b.b - a.b) * frac),
+  };
+}
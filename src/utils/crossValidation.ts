@@ -0,0 +1,93 @@
+/**
+ * Leave-one-out cross-validation of a variogram fit
+ */
+
+import {
+  KrigingOptions,
+  Sample,
+  createKrigingSystem,
+  krigeWithSystem,
+  leaveOneOutWithSystem,
+} from './kriging';
+import { VariogramParams } from './variogramModels';
+
+export interface CrossValidationResidual {
+  sample: Sample;
+  /** Kriged from every other sample */
+  estimate: number;
+  variance: number;
+  /** Estimate minus observed value */
+  error: number;
+  /** Error divided by the kriging standard deviation; null when the variance is zero */
+  standardizedError: number | null;
+}
+
+export interface CrossValidationSummary {
+  meanError: number;
+  rmse: number;
+  meanStandardizedError: number;
+  /** Mean squared standardized error; close to 1 when the variance is honest */
+  standardizedSquaredRatio: number;
+}
+
+export interface CrossValidationResult {
+  residuals: CrossValidationResidual[];
+  summary: CrossValidationSummary;
+}
+
+/**
+ * Krige each sample from the rest with the same model and search settings.
+ * Without a neighborhood every estimate comes from the one factorized system;
+ * otherwise each sample gets a small system of its own neighbors.
+ */
+export function leaveOneOut(
+  samples: Sample[],
+  params: VariogramParams,
+  options: KrigingOptions = {}
+): CrossValidationResult {
+  const shortcut = options.neighborhood
+    ? null
+    : leaveOneOutWithSystem(createKrigingSystem(samples, params, options));
+
+  const residuals = samples.map((sample, i) => {
+    const { estimate, variance } =
+      shortcut?.[i] ??
+      krigeWithSystem(
+        createKrigingSystem(
+          samples.filter((_, j) => j !== i),
+          params,
+          options
+        ),
+        sample.x,
+        sample.y
+      );
+    const error = estimate - sample.z;
+
+    return {
+      sample,
+      estimate,
+      variance,
+      error,
+      standardizedError: variance > 1e-10 ? error / Math.sqrt(variance) : null,
+    };
+  });
+
+  return { residuals, summary: summarizeResiduals(residuals) };
+}
+
+function summarizeResiduals(residuals: CrossValidationResidual[]): CrossValidationSummary {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  const errors = residuals.map(residual => residual.error);
+  const standardized = residuals
+    .map(residual => residual.standardizedError)
+    .filter((value): value is number => value !== null);
+
+  return {
+    meanError: mean(errors),
+    rmse: Math.sqrt(mean(errors.map(error => error * error))),
+    meanStandardizedError: mean(standardized),
+    standardizedSquaredRatio: mean(standardized.map(value => value * value)),
+  };
+}
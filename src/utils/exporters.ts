@@ -0,0 +1,213 @@
+/**
+ * File exports for grids, samples and variogram models
+ */
+
+import { Sample } from './kriging';
+import { Colormap } from './colormap';
+import { GridExtent, gridToWorld } from './sampleImport';
+import { VariogramParams } from './variogramModels';
+
+export interface NamedGrid {
+  name: string;
+  grid: number[][];
+}
+
+const NO_DATA = -9999;
+
+/**
+ * ESRI ASCII grid. Nodes sit at cell centres, so the origin is written as
+ * XLLCENTER/YLLCENTER; rows run from north to south.
+ */
+export function toEsriAscii(grid: number[][], extent: GridExtent): string {
+  const origin = gridToWorld(extent, 0, extent.height - 1);
+  const header = [
+    `NCOLS ${extent.width}`,
+    `NROWS ${extent.height}`,
+    `XLLCENTER ${origin.x}`,
+    `YLLCENTER ${origin.y}`,
+    `CELLSIZE ${extent.cellSize}`,
+    `NODATA_VALUE ${NO_DATA}`,
+  ];
+
+  const rows: string[] = [];
+  for (let y = 0; y < extent.height; y++) {
+    const values: string[] = [];
+    for (let x = 0; x < extent.width; x++) {
+      const value = grid[y]?.[x];
+      const missing = value === undefined || !Number.isFinite(value);
+      values.push(missing ? String(NO_DATA) : formatValue(value));
+    }
+    rows.push(values.join(' '));
+  }
+
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Long-format CSV: one line per node with its world coordinates and a column
+ * per grid
+ */
+export function gridsToCsv(grids: NamedGrid[], extent: GridExtent): string {
+  const lines = [['x', 'y', 'row', 'col', ...grids.map(g => g.name)].join(',')];
+
+  for (let y = 0; y < extent.height; y++) {
+    for (let x = 0; x < extent.width; x++) {
+      const world = gridToWorld(extent, x, y);
+      const values = grids.map(({ grid }) => {
+        const value = grid[y]?.[x];
+        return value === undefined || !Number.isFinite(value) ? '' : formatValue(value);
+      });
+      lines.push([formatValue(world.x), formatValue(world.y), y, x, ...values].join(','));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Samples in world coordinates, in the order they were taken
+ */
+export function samplesToCsv(samples: Sample[], extent: GridExtent): string {
+  const lines = ['x,y,z'];
+  for (const sample of samples) {
+    const world = gridToWorld(extent, sample.x, sample.y);
+    lines.push([world.x, world.y, sample.z].map(formatValue).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Variogram model as JSON. Ranges are converted from cells to world units.
+ */
+export function variogramToJson(params: VariogramParams, extent: GridExtent): string {
+  const scale = extent.cellSize;
+  return JSON.stringify(
+    {
+      nugget: params.nugget,
+      structures: params.structures.map(structure => ({
+        ...structure,
+        range: structure.range * scale,
+        ...(structure.minorRange !== undefined && { minorRange: structure.minorRange * scale }),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Heatmap of a grid with sample markers and a labelled colorbar, as a PNG,
+ * in the colormap the map is shown with
+ */
+export function renderGridPng(
+  grid: number[][],
+  samples: Sample[],
+  valueRange: [number, number],
+  title: string,
+  colormap: Colormap
+): Promise<Blob> {
+  const cell = 6;
+  const rows = grid.length;
+  const columns = grid[0]?.length ?? 0;
+  const mapWidth = columns * cell;
+  const mapHeight = rows * cell;
+  const margin = 20;
+  const barWidth = 16;
+  const labelWidth = 60;
+  const titleHeight = 24;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = margin * 3 + mapWidth + barWidth + labelWidth;
+  canvas.height = margin * 2 + titleHeight + mapHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas is not available'));
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = '#000';
+  ctx.font = '14px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(title, margin, margin + 14);
+
+  // Heatmap
+  const [minValue, maxValue] = valueRange;
+  const span = maxValue - minValue || 1;
+  const top = margin + titleHeight;
+  const toColor = (value: number) => {
+    const color = colormap(Math.min(Math.max((value - minValue) / span, 0), 1));
+    return `rgb(${color.r}, ${color.g}, ${color.b})`;
+  };
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < columns; x++) {
+      ctx.fillStyle = toColor(grid[y][x]);
+      ctx.fillRect(margin + x * cell, top + y * cell, cell, cell);
+    }
+  }
+
+  // Samples at node centres
+  ctx.strokeStyle = 'red';
+  ctx.lineWidth = 2;
+  for (const sample of samples) {
+    const x = margin + (sample.x + 0.5) * cell;
+    const y = top + (sample.y + 0.5) * cell;
+    ctx.beginPath();
+    ctx.moveTo(x - 4, y - 4);
+    ctx.lineTo(x + 4, y + 4);
+    ctx.moveTo(x + 4, y - 4);
+    ctx.lineTo(x - 4, y + 4);
+    ctx.stroke();
+  }
+
+  // Colorbar, high values at the top
+  const barLeft = margin * 2 + mapWidth;
+  for (let i = 0; i < mapHeight; i++) {
+    ctx.fillStyle = toColor(maxValue - (i / (mapHeight - 1 || 1)) * span);
+    ctx.fillRect(barLeft, top + i, barWidth, 1);
+  }
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(barLeft, top, barWidth, mapHeight);
+
+  ctx.fillStyle = '#000';
+  ctx.font = '12px Arial';
+  const ticks = 5;
+  for (let i = 0; i < ticks; i++) {
+    const fraction = i / (ticks - 1);
+    const y = top + fraction * mapHeight;
+    ctx.fillRect(barLeft + barWidth, y, 4, 1);
+    ctx.fillText(formatTick(maxValue - fraction * span), barLeft + barWidth + 6, y + 4);
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))))
+  );
+}
+
+/**
+ * Hand a file to the browser's download handling
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same task can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+export function downloadText(text: string, filename: string, type: string) {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toPrecision(8).replace(/\.?0+$/, '');
+}
+
+function formatTick(value: number): string {
+  return Math.abs(value) >= 1000 || Math.abs(value) < 0.01
+    ? value.toPrecision(3)
+    : value.toFixed(2);
+}
@@ -0,0 +1,87 @@
+/**
+ * Radix-2 fast Fourier transforms on split real/imaginary arrays
+ */
+
+/**
+ * In-place 1D FFT. Length must be a power of two.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * In-place 2D FFT over a row-major size×size grid
+ */
+export function fft2(re: Float64Array, im: Float64Array, size: number): void {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+
+  // Rows
+  for (let y = 0; y < size; y++) {
+    const offset = y * size;
+    rowRe.set(re.subarray(offset, offset + size));
+    rowIm.set(im.subarray(offset, offset + size));
+    fft(rowRe, rowIm);
+    re.set(rowRe, offset);
+    im.set(rowIm, offset);
+  }
+
+  // Columns
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm);
+    for (let y = 0; y < size; y++) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+}
+
+/**
+ * Smallest power of two that is at least n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
@@ -2,216 +2,942 @@
  * Kriging module for interpolation and semivariogram calculations
  */
 
+import {
+  VariogramParams,
+  anisotropicCoordinates,
+  anisotropicDistance,
+  evaluateStructure,
+  evaluateVariogram,
+  evaluateVariogramLag,
+  totalSill,
+} from './variogramModels';
+import { KdTree, buildKdTree, nearestNeighbors } from './spatialIndex';
+
 export interface Sample {
   x: number;
   y: number;
   z: number;
 }
 
-export interface VariogramParams {
-  nugget: number;
-  sill: number;
-  range: number;
+export interface SemivariogramBin {
+  distance: number;
+  semivariance: number;
+  /** Number of sample pairs averaged into the bin */
+  pairs: number;
+  /** Standard deviation of the pair semivariances in the bin */
+  spread: number;
+}
+
+export interface KrigingEstimate {
+  estimate: number;
+  /** Ordinary kriging variance at the target */
+  variance: number;
 }
 
 /**
- * Spherical variogram model
+ * One sample's share of an estimate
  */
-export function sphericalVariogram(distance: number, params: VariogramParams): number {
-  const { nugget, sill, range } = params;
-  const c = sill - nugget;
+export interface SampleWeight {
+  sample: Sample;
+  weight: number;
+}
 
-  if (distance === 0) return 0;
-  if (distance >= range) return sill;
+/**
+ * How a target was estimated: by kriging, by landing on a sample, by inverse
+ * distance weighting when the system is singular, or by the mean when no
+ * sample is in range
+ */
+export type WeightingMethod = 'kriging' | 'sample' | 'idw' | 'mean';
+
+export interface KrigingWeights extends KrigingEstimate {
+  method: WeightingMethod;
+  /** Every sample the target used, in system order; weights may be negative */
+  weights: SampleWeight[];
+  /**
+   * One multiplier per unbiasedness constraint: a single μ for ordinary
+   * kriging, one per drift term for universal kriging, none for simple
+   */
+  lagrange: number[];
+}
 
-  const h_a = distance / range;
-  return nugget + c * (1.5 * h_a - 0.5 * Math.pow(h_a, 3));
+/**
+ * Values on a lattice over the sample grid: node (i, j) sits on cell
+ * (i * step, j * step), so a step of 1 covers every cell
+ */
+export interface SurfaceGrid {
+  values: number[][];
+  step: number;
+}
+
+export interface SemivariogramDirection {
+  /** Direction in degrees clockwise from north */
+  azimuth: number;
+  /** Half-width of the accepted angle window, in degrees */
+  tolerance: number;
 }
 
 /**
- * Calculate empirical semivariogram from samples
+ * How sample pairs are grouped by separation: bin k is centered on
+ * (k + 0.5) * width and takes the pairs within tolerance of its center, so
+ * a tolerance above width / 2 lets neighboring bins overlap
  */
-export function calculateSemivariogram(
-  samples: Sample[],
-  binSize: number = 5
-): { distance: number; semivariance: number }[] {
-  if (samples.length < 2) return [];
+export interface LagSettings {
+  width: number;
+  tolerance: number;
+  /** Pairs further apart than this are left out; null keeps them all */
+  maxLag: number | null;
+}
 
-  const pairs: { distance: number; semivariance: number }[] = [];
+export const DEFAULT_LAGS: LagSettings = { width: 3, tolerance: 1.5, maxLag: null };
+
+/**
+ * One pair of samples in the variogram cloud
+ */
+export interface VariogramPair {
+  /** Indices into the sample list, with i < j */
+  i: number;
+  j: number;
+  /** Separation from sample i to sample j */
+  dx: number;
+  dy: number;
+  distance: number;
+  semivariance: number;
+}
+
+/**
+ * Every sample pair with its separation and half squared difference,
+ * optionally limited to a maximum lag and a directional window
+ */
+export function variogramCloud(
+  samples: Sample[],
+  maxLag: number | null = null,
+  direction?: SemivariogramDirection
+): VariogramPair[] {
+  const pairs: VariogramPair[] = [];
 
-  // Calculate all pairwise distances and semivariances
   for (let i = 0; i < samples.length; i++) {
     for (let j = i + 1; j < samples.length; j++) {
-      const dx = samples[i].x - samples[j].x;
-      const dy = samples[i].y - samples[j].y;
+      const dx = samples[j].x - samples[i].x;
+      const dy = samples[j].y - samples[i].y;
+      if (direction && !withinDirection(dx, dy, direction)) continue;
+
       const distance = Math.sqrt(dx * dx + dy * dy);
-      const semivariance = 0.5 * Math.pow(samples[i].z - samples[j].z, 2);
+      if (maxLag !== null && distance > maxLag) continue;
 
-      pairs.push({ distance, semivariance });
+      const semivariance = 0.5 * Math.pow(samples[i].z - samples[j].z, 2);
+      pairs.push({ i, j, dx, dy, distance, semivariance });
     }
   }
+  return pairs;
+}
 
-  // Bin the data
-  if (pairs.length === 0) return [];
+/**
+ * Calculate empirical semivariogram from samples, optionally keeping only
+ * pairs whose separation lies within a directional window
+ */
+export function calculateSemivariogram(
+  samples: Sample[],
+  lags: LagSettings = DEFAULT_LAGS,
+  direction?: SemivariogramDirection
+): SemivariogramBin[] {
+  return binVariogramCloud(variogramCloud(samples, lags.maxLag, direction), lags);
+}
 
-  const maxDistance = Math.max(...pairs.map(p => p.distance));
-  const bins: { distance: number; count: number; sum: number }[] = [];
+/**
+ * Average a variogram cloud into lag bins, dropping the empty ones
+ */
+export function binVariogramCloud(
+  cloud: VariogramPair[],
+  lags: LagSettings
+): SemivariogramBin[] {
+  if (cloud.length === 0 || !(lags.width > 0)) return [];
 
-  for (let i = 0; i <= Math.ceil(maxDistance / binSize); i++) {
-    bins.push({ distance: (i + 0.5) * binSize, count: 0, sum: 0 });
+  const maxDistance = cloud.reduce((max, pair) => Math.max(max, pair.distance), 0);
+  const bins: { distance: number; count: number; sum: number; sumSquares: number }[] = [];
+
+  for (let k = 0; k <= Math.ceil(maxDistance / lags.width); k++) {
+    bins.push({ distance: (k + 0.5) * lags.width, count: 0, sum: 0, sumSquares: 0 });
   }
 
-  // Assign pairs to bins
-  for (const pair of pairs) {
-    const binIndex = Math.floor(pair.distance / binSize);
-    if (binIndex < bins.length) {
-      bins[binIndex].count++;
-      bins[binIndex].sum += pair.semivariance;
+  // Assign each pair to every bin whose window holds it
+  for (const pair of cloud) {
+    const first = Math.max(Math.floor((pair.distance - lags.tolerance) / lags.width - 0.5), 0);
+    const last = Math.min(
+      Math.ceil((pair.distance + lags.tolerance) / lags.width - 0.5),
+      bins.length - 1
+    );
+    for (let k = first; k <= last; k++) {
+      if (!inLag(pair.distance, bins[k].distance, lags.tolerance)) continue;
+      bins[k].count++;
+      bins[k].sum += pair.semivariance;
+      bins[k].sumSquares += pair.semivariance * pair.semivariance;
     }
   }
 
-  // Calculate average semivariance for each bin
+  // Calculate average semivariance and its spread for each bin
   return bins
     .filter(bin => bin.count > 0)
-    .map(bin => ({
-      distance: bin.distance,
-      semivariance: bin.sum / bin.count,
-    }));
+    .map(bin => {
+      const mean = bin.sum / bin.count;
+      return {
+        distance: bin.distance,
+        semivariance: mean,
+        pairs: bin.count,
+        spread: Math.sqrt(Math.max(bin.sumSquares / bin.count - mean * mean, 0)),
+      };
+    });
+}
+
+/**
+ * Semivariance averaged over square lag cells, centered on zero lag. Each
+ * pair counts at both its separation and the reverse, so the map is
+ * symmetric through the center.
+ */
+export interface VariogramMap {
+  /** Row r, column c cover lag (c − radius, r − radius) in cells; NaN where no pair falls */
+  values: number[][];
+  counts: number[][];
+  /** Lag covered by one cell along each axis */
+  cellSize: number;
+  /** Cells from the center cell to the edge */
+  radius: number;
+}
+
+/**
+ * Average a variogram cloud over (dx, dy) lag cells out to `maxLag`
+ */
+export function variogramMap(
+  cloud: VariogramPair[],
+  cellSize: number,
+  maxLag: number
+): VariogramMap {
+  const radius = Math.max(Math.ceil(maxLag / cellSize - 0.5), 0);
+  const size = 2 * radius + 1;
+  const sums = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const counts = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+  for (const pair of cloud) {
+    const column = Math.round(pair.dx / cellSize);
+    const row = Math.round(pair.dy / cellSize);
+    if (Math.abs(column) > radius || Math.abs(row) > radius) continue;
+
+    sums[radius + row][radius + column] += pair.semivariance;
+    counts[radius + row][radius + column]++;
+    // The center cell is its own reverse
+    if (row !== 0 || column !== 0) {
+      sums[radius - row][radius - column] += pair.semivariance;
+      counts[radius - row][radius - column]++;
+    }
+  }
+
+  return {
+    values: sums.map((row, r) =>
+      row.map((sum, c) => (counts[r][c] > 0 ? sum / counts[r][c] : NaN))
+    ),
+    counts,
+    cellSize,
+    radius,
+  };
+}
+
+/**
+ * The pairs of a cloud that were averaged into the bin centered on `distance`
+ */
+export function pairsInBin(
+  cloud: VariogramPair[],
+  distance: number,
+  lags: LagSettings
+): VariogramPair[] {
+  return cloud.filter(pair => inLag(pair.distance, distance, lags.tolerance));
 }
 
 /**
- * Fit spherical model to empirical semivariogram (simplified)
+ * Whether a separation falls in the half-open window around a bin center
+ */
+function inLag(distance: number, center: number, tolerance: number): boolean {
+  return distance >= center - tolerance && distance < center + tolerance;
+}
+
+/**
+ * Whether a lag vector falls inside a directional window. Directions are
+ * axial, so a pair and its reverse both match.
+ */
+function withinDirection(dx: number, dy: number, direction: SemivariogramDirection): boolean {
+  // Azimuth of the lag, clockwise from north (negative y)
+  const lagAzimuth = (Math.atan2(dx, -dy) * 180) / Math.PI;
+  const difference = Math.abs((((lagAzimuth - direction.azimuth) % 180) + 180) % 180);
+  return Math.min(difference, 180 - difference) <= direction.tolerance;
+}
+
+export type FitWeighting = 'pairs' | 'cressie';
+
+/**
+ * Fit a variogram to the empirical semivariogram by weighted least squares.
+ *
+ * The template fixes the model family of each structure, its anisotropy ratio
+ * and azimuth, and any shape parameter; the nugget, partial sills and ranges
+ * are fitted. Bins are weighted by pair count, or by Cressie's weights
+ * N(h) / γ(h)², which are refined over a few reweighting passes.
  */
 export function fitVariogramParams(
-  empirical: { distance: number; semivariance: number }[]
+  empirical: SemivariogramBin[],
+  template: VariogramParams,
+  weighting: FitWeighting = 'cressie'
 ): VariogramParams {
-  if (empirical.length === 0) {
-    return { nugget: 0, sill: 1, range: 10 };
+  const bins = empirical.filter(bin => bin.pairs > 0);
+  if (bins.length === 0 || template.structures.length === 0) return template;
+
+  const maxDistance = Math.max(...bins.map(bin => bin.distance));
+  const candidates = rangeCandidates(maxDistance);
+
+  // Start with ranges spread across the lags
+  let ranges = template.structures.map(
+    (_, k) => (maxDistance * (k + 1)) / (template.structures.length + 1)
+  );
+  let weights = bins.map(bin => bin.pairs);
+  let best = solveSills(bins, template, ranges, weights);
+
+  const passes = weighting === 'cressie' ? 3 : 1;
+  for (let pass = 0; pass < passes; pass++) {
+    // Coordinate search over each structure's range
+    for (let sweep = 0; sweep < 3; sweep++) {
+      for (let k = 0; k < ranges.length; k++) {
+        for (const candidate of candidates) {
+          const trial = ranges.map((range, i) => (i === k ? candidate : range));
+          const fit = solveSills(bins, template, trial, weights);
+          if (fit.error < best.error) {
+            best = fit;
+            ranges = trial;
+          }
+        }
+      }
+    }
+
+    if (weighting === 'cressie') {
+      weights = bins.map(bin => {
+        const modelled = Math.max(evaluateVariogram(bin.distance, best.params), 1e-6);
+        return bin.pairs / (modelled * modelled);
+      });
+      best = solveSills(bins, template, ranges, weights);
+    }
   }
 
-  // Simple fitting: use empirical data to estimate parameters
-  const nugget = Math.min(...empirical.map(e => e.semivariance)) * 0.1;
-  const sill = Math.max(...empirical.map(e => e.semivariance)) * 1.1;
-  const maxDistance = Math.max(...empirical.map(e => e.distance));
-  const range = maxDistance * 0.5;
+  return best.params;
+}
+
+/**
+ * Log-spaced trial ranges from a fraction of the first lag to twice the last
+ */
+function rangeCandidates(maxDistance: number): number[] {
+  const low = Math.max(maxDistance * 0.05, 0.5);
+  const high = maxDistance * 2;
+  const count = 40;
+  return Array.from({ length: count }, (_, i) => low * Math.pow(high / low, i / (count - 1)));
+}
+
+/**
+ * With the ranges fixed the model is linear in the nugget and partial sills,
+ * so solve that non-negative weighted least squares problem exactly by
+ * trying every active set of coefficients.
+ */
+function solveSills(
+  bins: SemivariogramBin[],
+  template: VariogramParams,
+  ranges: number[],
+  weights: number[]
+): { params: VariogramParams; error: number } {
+  const structures = template.structures.map((structure, k) => ({
+    ...structure,
+    range: ranges[k],
+    minorRange:
+      structure.minorRange === undefined
+        ? undefined
+        : ranges[k] * (structure.minorRange / structure.range),
+  }));
+
+  // Design matrix: nugget column, then each structure at unit sill
+  const columns = [
+    bins.map(() => 1),
+    ...structures.map(structure =>
+      bins.map(bin => evaluateStructure(bin.distance, { ...structure, sill: 1 }))
+    ),
+  ];
+  const target = bins.map(bin => bin.semivariance);
+
+  let bestCoefficients = columns.map(() => 0);
+  let bestError = weightedError(columns, bestCoefficients, target, weights);
+
+  for (let mask = 1; mask < 1 << columns.length; mask++) {
+    const active = columns.map((_, j) => j).filter(j => mask & (1 << j));
+    const solution = solveNormalEquations(
+      active.map(j => columns[j]),
+      target,
+      weights
+    );
+    if (!solution || solution.some(c => c < 0)) continue;
+
+    const coefficients = columns.map(() => 0);
+    active.forEach((j, i) => (coefficients[j] = solution[i]));
+    const error = weightedError(columns, coefficients, target, weights);
+    if (error < bestError) {
+      bestError = error;
+      bestCoefficients = coefficients;
+    }
+  }
+
+  return {
+    params: {
+      nugget: bestCoefficients[0],
+      structures: structures.map((structure, k) => ({
+        ...structure,
+        sill: bestCoefficients[k + 1],
+      })),
+    },
+    error: bestError,
+  };
+}
+
+function solveNormalEquations(
+  columns: number[][],
+  target: number[],
+  weights: number[]
+): number[] | null {
+  const m = columns.length;
+  const A: number[][] = [];
+  const b: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < m; j++) {
+      let sum = 0;
+      for (let r = 0; r < target.length; r++) {
+        sum += weights[r] * columns[i][r] * columns[j][r];
+      }
+      row.push(sum);
+    }
+    A.push(row);
+
+    let rhs = 0;
+    for (let r = 0; r < target.length; r++) {
+      rhs += weights[r] * columns[i][r] * target[r];
+    }
+    b.push(rhs);
+  }
+
+  return gaussianElimination(A, b);
+}
 
-  return { nugget, sill, range };
+function weightedError(
+  columns: number[][],
+  coefficients: number[],
+  target: number[],
+  weights: number[]
+): number {
+  let error = 0;
+  for (let r = 0; r < target.length; r++) {
+    let modelled = 0;
+    for (let j = 0; j < columns.length; j++) {
+      modelled += coefficients[j] * columns[j][r];
+    }
+    error += weights[r] * (target[r] - modelled) * (target[r] - modelled);
+  }
+  return error;
 }
 
 /**
- * Ordinary kriging prediction for a single point
+ * Kriging prediction for a single point
  */
 export function krigePoint(
   x: number,
   y: number,
   samples: Sample[],
-  params: VariogramParams
+  params: VariogramParams,
+  options: KrigingOptions = {}
 ): number {
-  if (samples.length === 0) return 0;
+  return krigePointWithVariance(x, y, samples, params, options).estimate;
+}
 
-  // Check if point is exactly at a sample location
-  for (const sample of samples) {
-    if (sample.x === x && sample.y === y) {
-      return sample.z;
-    }
-  }
+/**
+ * Kriging prediction and variance for a single point. For ordinary kriging
+ * the variance is Σ wᵢγ(xᵢ, x₀) + μ, where μ is the Lagrange multiplier.
+ */
+export function krigePointWithVariance(
+  x: number,
+  y: number,
+  samples: Sample[],
+  params: VariogramParams,
+  options: KrigingOptions = {}
+): KrigingEstimate {
+  return krigeWithSystem(createKrigingSystem(samples, params, options), x, y);
+}
+
+/**
+ * Local search neighborhood. Without one, every sample is used for every
+ * target. Distances and sectors follow the anisotropy of the first structure,
+ * so the search area is its range ellipse scaled to the search radius.
+ */
+export interface Neighborhood {
+  /** Most samples used for any one target */
+  maxNeighbors: number;
+  /** Samples further than this along the major axis are ignored */
+  searchRadius: number;
+  /** 1 for no balancing, 4 for quadrants, 8 for octants */
+  sectors: 1 | 4 | 8;
+}
+
+export type DriftOrder = 'linear' | 'quadratic';
+
+/**
+ * Kriging flavour:
+ * - ordinary: unknown constant mean, one unbiasedness constraint
+ * - simple: known mean, no constraints; uses the covariance sill − γ(h), so it
+ *   assumes a model with a sill
+ * - universal: mean is a linear or quadratic trend in x/y
+ */
+export type Estimator =
+  | { method: 'ordinary' }
+  | { method: 'simple'; mean: number }
+  | { method: 'universal'; drift: DriftOrder };
+
+export interface KrigingOptions {
+  neighborhood?: Neighborhood | null;
+  estimator?: Estimator;
+}
+
+/**
+ * Kriging system for a fixed sample set and variogram. The left-hand side
+ * depends only on the samples, so it is factorized once and reused for every
+ * target point. With a local neighborhood, one factorization is kept per
+ * distinct set of neighbors.
+ */
+export interface KrigingSystem {
+  samples: Sample[];
+  params: VariogramParams;
+  neighborhood: Neighborhood | null;
+  estimator: Estimator;
+  /** Centering and scaling of coordinates for drift terms */
+  frame: DriftFrame;
+  /** System over every sample, used when there is no neighborhood */
+  global: LocalSystem | null;
+  /** Over sample locations in the search frame */
+  index: KdTree | null;
+  /** Local systems keyed by their sorted sample indices */
+  cache: Map<string, LocalSystem>;
+  /** Estimate for targets with no samples in range */
+  mean: number;
+}
+
+interface LocalSystem {
+  samples: Sample[];
+  /** Null when the system is singular; targets then fall back to IDW */
+  factorization: LUFactorization | null;
+}
+
+interface LUFactorization {
+  lu: number[][];
+  pivots: number[];
+}
+
+interface DriftFrame {
+  cx: number;
+  cy: number;
+  scale: number;
+}
+
+/**
+ * Prepare kriging for a sample set, optionally within a local neighborhood
+ */
+export function createKrigingSystem(
+  samples: Sample[],
+  params: VariogramParams,
+  options: KrigingOptions = {}
+): KrigingSystem {
+  const neighborhood = options.neighborhood ?? null;
+  const estimator = options.estimator ?? { method: 'ordinary' };
+  const frame = driftFrame(samples);
+  const sampleMean =
+    samples.length > 0 ? samples.reduce((sum, s) => sum + s.z, 0) / samples.length : 0;
+
+  return {
+    samples,
+    params,
+    neighborhood,
+    estimator,
+    frame,
+    global: neighborhood ? null : factorizeSystem(samples, params, estimator, frame),
+    index: neighborhood
+      ? buildKdTree(samples.map(s => ({ ...s, ...searchFrame(params, s.x, s.y) })))
+      : null,
+    cache: new Map(),
+    mean: estimator.method === 'simple' ? estimator.mean : sampleMean,
+  };
+}
 
-  // Build system matrix (simplified kriging)
+/**
+ * Build and factorize the sample-to-sample kriging matrix, bordered by the
+ * drift functions for ordinary and universal kriging
+ */
+function factorizeSystem(
+  samples: Sample[],
+  params: VariogramParams,
+  estimator: Estimator,
+  frame: DriftFrame
+): LocalSystem {
   const n = samples.length;
   const A: number[][] = [];
-  const b: number[] = [];
+  const simple = estimator.method === 'simple';
+  const sill = totalSill(params);
+  const drift = samples.map(sample => driftTerms(estimator, sample.x, sample.y, frame));
+  const m = simple ? 0 : driftTerms(estimator, 0, 0, frame).length;
 
-  // Distance matrix and right-hand side
+  // Semivariogram (or covariance, for simple kriging) matrix between samples
   for (let i = 0; i < n; i++) {
     const row: number[] = [];
     for (let j = 0; j < n; j++) {
-      if (i === j) {
-        row.push(0);
-      } else {
+      let gamma = 0;
+      if (i !== j) {
         const dx = samples[i].x - samples[j].x;
         const dy = samples[i].y - samples[j].y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        row.push(sphericalVariogram(distance, params));
+        gamma = evaluateVariogramLag(dx, dy, params);
       }
+      row.push(simple ? sill - gamma : gamma);
     }
-    row.push(1); // Lagrange multiplier
+    row.push(...drift[i]); // Lagrange multipliers
     A.push(row);
+  }
 
-    // Distance from point to sample i
-    const dx = x - samples[i].x;
-    const dy = y - samples[i].y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    b.push(sphericalVariogram(distance, params));
+  // Add constraint rows for unbiased kriging
+  for (let k = 0; k < m; k++) {
+    const constraintRow = drift.map(terms => terms[k]);
+    constraintRow.push(...new Array(m).fill(0));
+    A.push(constraintRow);
   }
 
-  // Add constraint row for unbiased kriging
-  const constraintRow = new Array(n).fill(1);
-  constraintRow.push(0);
-  A.push(constraintRow);
-  b.push(1);
+  return { samples, factorization: n > 0 ? luDecompose(A) : null };
+}
+
+/**
+ * Center coordinates on the samples and scale them to roughly unit size,
+ * which keeps quadratic drift terms well conditioned
+ */
+function driftFrame(samples: Sample[]): DriftFrame {
+  if (samples.length === 0) return { cx: 0, cy: 0, scale: 1 };
 
-  // Solve using Gaussian elimination
-  const weights = gaussianElimination(A, b);
+  const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const spread = Math.max(...samples.map(s => Math.max(Math.abs(s.x - cx), Math.abs(s.y - cy))));
+  return { cx, cy, scale: spread || 1 };
+}
 
-  if (!weights) {
-    // Fallback to inverse distance weighting
-    return inverseDistanceWeighting(x, y, samples);
+/**
+ * Drift functions evaluated at a location: the constant for ordinary kriging,
+ * plus the linear or quadratic monomials for universal kriging
+ */
+function driftTerms(estimator: Estimator, x: number, y: number, frame: DriftFrame): number[] {
+  if (estimator.method === 'simple') return [];
+  if (estimator.method === 'ordinary') return [1];
+
+  const u = (x - frame.cx) / frame.scale;
+  const v = (y - frame.cy) / frame.scale;
+  return estimator.drift === 'linear' ? [1, u, v] : [1, u, v, u * u, u * v, v * v];
+}
+
+/**
+ * Local system for the neighbors of a target, reusing cached factorizations
+ */
+function localSystemAt(system: KrigingSystem, x: number, y: number): LocalSystem {
+  const indices = selectNeighbors(system, x, y).sort((a, b) => a - b);
+  const key = indices.join(',');
+
+  let local = system.cache.get(key);
+  if (!local) {
+    local = factorizeSystem(
+      indices.map(i => system.samples[i]),
+      system.params,
+      system.estimator,
+      system.frame
+    );
+    system.cache.set(key, local);
+  }
+  return local;
+}
+
+/**
+ * A location in the frame where the first structure's range ellipse is a
+ * circle, so that neighborhood distances and sectors follow its anisotropy
+ */
+function searchFrame(params: VariogramParams, x: number, y: number): { x: number; y: number } {
+  const geometry = params.structures[0];
+  return geometry ? anisotropicCoordinates(x, y, geometry) : { x, y };
+}
+
+/**
+ * Indices of the samples in a target's neighborhood. With sector balancing,
+ * each sector around the target contributes at most its share of neighbors.
+ */
+function selectNeighbors(system: KrigingSystem, x: number, y: number): number[] {
+  const { neighborhood, index, samples } = system;
+  if (!neighborhood || !index) return samples.map((_, i) => i);
+
+  const { maxNeighbors, searchRadius, sectors } = neighborhood;
+  const target = searchFrame(system.params, x, y);
+  if (sectors === 1) {
+    return nearestNeighbors(index, target.x, target.y, maxNeighbors, searchRadius).map(
+      n => n.index
+    );
   }
 
-  // Calculate kriged value
+  const candidates = nearestNeighbors(index, target.x, target.y, samples.length, searchRadius);
+  const perSector = Math.ceil(maxNeighbors / sectors);
+  const counts = new Array(sectors).fill(0);
+  const chosen: number[] = [];
+
+  for (const candidate of candidates) {
+    if (chosen.length >= maxNeighbors) break;
+
+    // Sectors are measured from the major axis
+    const sample = index.samples[candidate.index];
+    const angle = Math.atan2(sample.y - target.y, sample.x - target.x) + Math.PI;
+    const sector = Math.min(Math.floor(angle / ((2 * Math.PI) / sectors)), sectors - 1);
+    if (counts[sector] < perSector) {
+      counts[sector]++;
+      chosen.push(candidate.index);
+    }
+  }
+  return chosen;
+}
+
+/**
+ * Krige one target point using a prepared system
+ */
+export function krigeWithSystem(system: KrigingSystem, x: number, y: number): KrigingEstimate {
+  const { params } = system;
+  if (system.samples.length === 0) return { estimate: 0, variance: totalSill(params) };
+
+  const { samples, factorization } = system.global ?? localSystemAt(system, x, y);
+  if (samples.length === 0) {
+    // Nothing within the search radius
+    return { estimate: system.mean, variance: totalSill(params) };
+  }
+
+  // Check if point is exactly at a sample location
+  for (const sample of samples) {
+    if (sample.x === x && sample.y === y) {
+      return { estimate: sample.z, variance: 0 };
+    }
+  }
+
+  if (!factorization) {
+    // Fallback to inverse distance weighting, with no variance information
+    return {
+      estimate: inverseDistanceWeighting(x, y, samples, params),
+      variance: totalSill(params),
+    };
+  }
+
+  const b = rightHandSide(system, samples, x, y);
+  return combineSolution(system, samples, b, luSolve(factorization, b));
+}
+
+/**
+ * Estimate and variance from the solved weights of one target
+ */
+function combineSolution(
+  system: KrigingSystem,
+  samples: Sample[],
+  b: number[],
+  weights: number[]
+): KrigingEstimate {
+  const { estimator } = system;
+  const n = samples.length;
+
+  if (estimator.method === 'simple') {
+    // Weighted residuals from the known mean; variance is C(0) − Σ wᵢCᵢ₀
+    let prediction = estimator.mean;
+    let variance = totalSill(system.params);
+    for (let i = 0; i < n; i++) {
+      prediction += weights[i] * (samples[i].z - estimator.mean);
+      variance -= weights[i] * b[i];
+    }
+    return { estimate: prediction, variance: Math.max(variance, 0) };
+  }
+
+  // Calculate kriged value; the variance also picks up the Lagrange
+  // multipliers times the drift terms at the target
   let prediction = 0;
-  for (let i = 0; i < n; i++) {
-    prediction += weights[i] * samples[i].z;
+  let variance = 0;
+  for (let i = 0; i < b.length; i++) {
+    if (i < n) prediction += weights[i] * samples[i].z;
+    variance += weights[i] * b[i];
   }
 
-  return prediction;
+  return { estimate: prediction, variance: Math.max(variance, 0) };
+}
+
+/**
+ * Leave-one-out estimates for every sample from the one global factorization
+ * (Dubrule's shortcut). With B the inverse of the kriging matrix and y the
+ * data bordered by zeros, sample i kriged from the others misses by (By)ᵢ / Bᵢᵢ,
+ * with a variance of ±1 / Bᵢᵢ. Null when there is no global system to invert:
+ * with a local neighborhood, or when removing a sample leaves it singular.
+ */
+export function leaveOneOutWithSystem(system: KrigingSystem): KrigingEstimate[] | null {
+  const factorization = system.global?.factorization;
+  if (!factorization) return null;
+
+  const { samples, estimator } = system;
+  const simple = estimator.method === 'simple';
+  const size = factorization.lu.length;
+  const data = new Array<number>(size).fill(0);
+  samples.forEach((sample, i) => (data[i] = simple ? sample.z - estimator.mean : sample.z));
+  const solved = luSolve(factorization, data);
+
+  const estimates: KrigingEstimate[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    // Diagonal entry of the inverse, from its i-th column
+    const unit = new Array<number>(size).fill(0);
+    unit[i] = 1;
+    const diagonal = luSolve(factorization, unit)[i];
+    if (!(Math.abs(diagonal) > 1e-12)) return null;
+
+    // The semivariogram matrix is the negated covariance one, flipping the sign
+    estimates.push({
+      estimate: samples[i].z - solved[i] / diagonal,
+      variance: Math.max((simple ? 1 : -1) / diagonal, 0),
+    });
+  }
+  return estimates;
 }
 
 /**
- * Simple Gaussian elimination solver
+ * The weight each sample gets when kriging one target, together with the
+ * Lagrange multipliers of the unbiasedness constraints
  */
-function gaussianElimination(A: number[][], b: number[]): number[] | null {
+export function krigingWeights(system: KrigingSystem, x: number, y: number): KrigingWeights {
+  const sill = totalSill(system.params);
+  if (system.samples.length === 0) {
+    return { estimate: 0, variance: sill, method: 'mean', weights: [], lagrange: [] };
+  }
+
+  const { samples, factorization } = system.global ?? localSystemAt(system, x, y);
+  if (samples.length === 0) {
+    return { estimate: system.mean, variance: sill, method: 'mean', weights: [], lagrange: [] };
+  }
+
+  const exact = samples.find(sample => sample.x === x && sample.y === y);
+  if (exact) {
+    const weights = samples.map(sample => ({ sample, weight: sample === exact ? 1 : 0 }));
+    return { estimate: exact.z, variance: 0, method: 'sample', weights, lagrange: [] };
+  }
+
+  if (!factorization) {
+    const weights = inverseDistanceWeights(x, y, samples, system.params);
+    return {
+      estimate: samples.reduce((sum, sample, i) => sum + weights[i] * sample.z, 0),
+      variance: sill,
+      method: 'idw',
+      weights: samples.map((sample, i) => ({ sample, weight: weights[i] })),
+      lagrange: [],
+    };
+  }
+
+  const b = rightHandSide(system, samples, x, y);
+  const solution = luSolve(factorization, b);
+  return {
+    ...combineSolution(system, samples, b, solution),
+    method: 'kriging',
+    weights: samples.map((sample, i) => ({ sample, weight: solution[i] })),
+    lagrange: solution.slice(samples.length),
+  };
+}
+
+/**
+ * Right-hand side for a target: the lag from the target to each sample (the
+ * covariance, for simple kriging), then the drift terms at the target
+ */
+function rightHandSide(system: KrigingSystem, samples: Sample[], x: number, y: number): number[] {
+  const { params, estimator } = system;
+  const simple = estimator.method === 'simple';
+  const sill = totalSill(params);
+  const b: number[] = [];
+
+  for (const sample of samples) {
+    const gamma = evaluateVariogramLag(x - sample.x, y - sample.y, params);
+    b.push(simple ? sill - gamma : gamma);
+  }
+  b.push(...driftTerms(estimator, x, y, system.frame));
+  return b;
+}
+
+/**
+ * Solve a dense linear system by Gaussian elimination. Returns null for
+ * singular matrices.
+ */
+export function gaussianElimination(A: number[][], b: number[]): number[] | null {
+  const factorization = luDecompose(A);
+  return factorization ? luSolve(factorization, b) : null;
+}
+
+/**
+ * LU decomposition with partial pivoting. Returns null for singular matrices.
+ */
+function luDecompose(A: number[][]): LUFactorization | null {
   const n = A.length;
-  const matrix = A.map(row => [...row]);
-  const rhs = [...b];
+  const lu = A.map(row => [...row]);
+  const pivots: number[] = [];
 
-  // Forward elimination
   for (let i = 0; i < n; i++) {
     // Find pivot
     let maxRow = i;
     for (let k = i + 1; k < n; k++) {
-      if (Math.abs(matrix[k][i]) > Math.abs(matrix[maxRow][i])) {
+      if (Math.abs(lu[k][i]) > Math.abs(lu[maxRow][i])) {
         maxRow = k;
       }
     }
 
     // Swap rows
-    [matrix[i], matrix[maxRow]] = [matrix[maxRow], matrix[i]];
-    [rhs[i], rhs[maxRow]] = [rhs[maxRow], rhs[i]];
+    [lu[i], lu[maxRow]] = [lu[maxRow], lu[i]];
+    pivots.push(maxRow);
 
     // Check for singular matrix
-    if (Math.abs(matrix[i][i]) < 1e-10) {
+    if (Math.abs(lu[i][i]) < 1e-10) {
       return null;
     }
 
-    // Eliminate below
+    // Eliminate below, keeping the multipliers in the lower triangle
     for (let k = i + 1; k < n; k++) {
-      const factor = matrix[k][i] / matrix[i][i];
-      for (let j = i; j < n; j++) {
-        matrix[k][j] -= factor * matrix[i][j];
+      const factor = lu[k][i] / lu[i][i];
+      lu[k][i] = factor;
+      for (let j = i + 1; j < n; j++) {
+        lu[k][j] -= factor * lu[i][j];
       }
-      rhs[k] -= factor * rhs[i];
+    }
+  }
+
+  return { lu, pivots };
+}
+
+/**
+ * Solve with a prepared LU factorization
+ */
+function luSolve({ lu, pivots }: LUFactorization, b: number[]): number[] {
+  const n = lu.length;
+  const solution = [...b];
+
+  // Apply row swaps and forward substitution
+  for (let i = 0; i < n; i++) {
+    [solution[i], solution[pivots[i]]] = [solution[pivots[i]], solution[i]];
+    for (let j = 0; j < i; j++) {
+      solution[i] -= lu[i][j] * solution[j];
     }
   }
 
   // Back substitution
-  const solution = new Array(n);
   for (let i = n - 1; i >= 0; i--) {
-    solution[i] = rhs[i];
     for (let j = i + 1; j < n; j++) {
-      solution[i] -= matrix[i][j] * solution[j];
+      solution[i] -= lu[i][j] * solution[j];
     }
-    solution[i] /= matrix[i][i];
+    solution[i] /= lu[i][i];
   }
 
   return solution;
@@ -220,71 +946,44 @@ function gaussianElimination(A: number[][], b: number[]): number[] | null {
 /**
  * Inverse distance weighting (fallback)
  */
-function inverseDistanceWeighting(x: number, y: number, samples: Sample[]): number {
-  let totalWeight = 0;
-  let weightedSum = 0;
-
-  for (const sample of samples) {
-    const dx = x - sample.x;
-    const dy = y - sample.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance < 0.001) return sample.z; // At sample location
-
-    const weight = 1 / (distance * distance);
-    weightedSum += weight * sample.z;
-    totalWeight += weight;
-  }
-
-  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+function inverseDistanceWeighting(
+  x: number,
+  y: number,
+  samples: Sample[],
+  params: VariogramParams
+): number {
+  const weights = inverseDistanceWeights(x, y, samples, params);
+  return samples.reduce((sum, sample, i) => sum + weights[i] * sample.z, 0);
 }
 
 /**
- * Predict entire surface using kriging
+ * Normalized inverse squared distance weights. Distances follow the
+ * anisotropy of the first structure.
  */
-export function kригingPrediction(
-  width: number,
-  height: number,
+function inverseDistanceWeights(
+  x: number,
+  y: number,
   samples: Sample[],
-  params: VariogramParams,
-  step: number = 1
-): number[][] {
-  const prediction: number[][] = [];
-
-  for (let y = 0; y < height; y += step) {
-    const row: number[] = [];
-    for (let x = 0; x < width; x += step) {
-      const value = krigePoint(x, y, samples, params);
-      row.push(value);
-    }
-    prediction.push(row);
-  }
-
-  return prediction;
-}
+  params: VariogramParams
+): number[] {
+  const geometry = params.structures[0];
+  const raw: number[] = [];
 
-/**
- * Calculate RMSE between two surfaces
- */
-export function calculateRMSE(true_surface: number[][], predicted_surface: number[][]): number {
-  let sumSquaredError = 0;
-  let count = 0;
+  for (const sample of samples) {
+    const dx = x - sample.x;
+    const dy = y - sample.y;
+    const distance = geometry
+      ? anisotropicDistance(dx, dy, geometry)
+      : Math.sqrt(dx * dx + dy * dy);
 
-  const minHeight = Math.min(true_surface.length, predicted_surface.length);
-  const minWidth = Math.min(
-    true_surface[0]?.length ?? 0,
-    predicted_surface[0]?.length ?? 0
-  );
+    // At a sample location, that sample is the estimate
+    if (distance < 0.001) return samples.map(other => (other === sample ? 1 : 0));
 
-  for (let y = 0; y < minHeight; y++) {
-    for (let x = 0; x < minWidth; x++) {
-      const error = true_surface[y][x] - predicted_surface[y][x];
-      sumSquaredError += error * error;
-      count++;
-    }
+    raw.push(1 / (distance * distance));
   }
 
-  return count > 0 ? Math.sqrt(sumSquaredError / count) : 0;
+  const total = raw.reduce((sum, weight) => sum + weight, 0);
+  return raw.map(weight => (total > 0 ? weight / total : 0));
 }
 
 /**
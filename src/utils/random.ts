@@ -0,0 +1,43 @@
+/**
+ * Seeded pseudo-random number generation
+ */
+
+export type Rng = () => number;
+
+/**
+ * Mulberry32 generator: returns a function producing floats in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh seed for a new round
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+/**
+ * Uniform float in [min, max)
+ */
+export function uniform(rng: Rng, min: number, max: number): number {
+  return min + (max - min) * rng();
+}
+
+/**
+ * Standard normal deviate via the Box-Muller transform
+ */
+export function gaussian(rng: Rng): number {
+  const u = 1 - rng(); // avoid log(0)
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,191 @@
+/**
+ * Drawing grids onto canvases of any size: resampling, contour lines and
+ * colorbar ticks. Cell (x, y) of a grid covers the canvas area between
+ * x / width and (x + 1) / width across, so its center sits at x + 0.5.
+ */
+
+import { Colormap } from './colormap';
+
+export type RasterSampling = 'nearest' | 'bilinear';
+
+type Edge = 'top' | 'right' | 'bottom' | 'left';
+
+/** A contour line piece, in grid coordinates of cell centers */
+export interface ContourSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Edges a contour crosses for each corner pattern, where the top-left,
+ * top-right, bottom-right and bottom-left corners above the level add 8, 4,
+ * 2 and 1. Saddles (5 and 10) are settled per square.
+ */
+const SEGMENT_EDGES: Record<number, [Edge, Edge][]> = {
+  1: [['left', 'bottom']],
+  2: [['bottom', 'right']],
+  3: [['left', 'right']],
+  4: [['top', 'right']],
+  6: [['top', 'bottom']],
+  7: [['left', 'top']],
+  8: [['left', 'top']],
+  9: [['top', 'bottom']],
+  11: [['top', 'right']],
+  12: [['left', 'right']],
+  13: [['bottom', 'right']],
+  14: [['left', 'bottom']],
+};
+
+/** Saddle lines that separate the top-left and bottom-right corners from the rest */
+const CUT_OFF_TL_BR: [Edge, Edge][] = [
+  ['left', 'top'],
+  ['bottom', 'right'],
+];
+/** Saddle lines that separate the top-right and bottom-left corners from the rest */
+const CUT_OFF_TR_BL: [Edge, Edge][] = [
+  ['top', 'right'],
+  ['left', 'bottom'],
+];
+
+/**
+ * Fill RGBA pixels with a grid stretched over the whole image. Cells without
+ * a finite value, such as rows still being predicted, stay transparent.
+ */
+export function paintRaster(
+  pixels: Uint8ClampedArray,
+  imageWidth: number,
+  imageHeight: number,
+  grid: number[][],
+  valueRange: [number, number],
+  colormap: Colormap,
+  sampling: RasterSampling
+) {
+  const rows = grid.length;
+  const columns = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  if (rows === 0 || columns === 0) return;
+
+  const [minValue, maxValue] = valueRange;
+  const span = maxValue - minValue || 1;
+  const cellAt = (x: number, y: number) => grid[y]?.[x];
+
+  for (let py = 0; py < imageHeight; py++) {
+    // Position in grid coordinates, where cell centers are whole numbers
+    const gy = ((py + 0.5) / imageHeight) * rows - 0.5;
+
+    for (let px = 0; px < imageWidth; px++) {
+      const gx = ((px + 0.5) / imageWidth) * columns - 0.5;
+      const nearest = cellAt(
+        Math.min(Math.max(Math.round(gx), 0), columns - 1),
+        Math.min(Math.max(Math.round(gy), 0), rows - 1)
+      );
+
+      let value = nearest;
+      if (sampling === 'bilinear') {
+        const interpolated = bilinear(cellAt, gx, gy, columns, rows);
+        if (interpolated !== null) value = interpolated;
+      }
+      if (value === undefined || !Number.isFinite(value)) continue;
+
+      const color = colormap(Math.min(Math.max((value - minValue) / span, 0), 1));
+      const idx = (py * imageWidth + px) * 4;
+      pixels[idx] = color.r;
+      pixels[idx + 1] = color.g;
+      pixels[idx + 2] = color.b;
+      pixels[idx + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Evenly spaced round values inside a range, at most about `count` of them
+ */
+export function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min;
+  if (!(span > 0) || count < 1) return [min];
+
+  const rough = span / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const factor = [1, 2, 2.5, 5, 10].find(candidate => candidate * magnitude >= rough) ?? 10;
+  const step = factor * magnitude;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.abs(tick) < step * 1e-9 ? 0 : tick);
+  }
+  return ticks;
+}
+
+/**
+ * Marching squares over the cell centers: the pieces of the line where the
+ * grid crosses `level`. Saddles are resolved by the mean of the four corners.
+ */
+export function contourSegments(grid: number[][], level: number): ContourSegment[] {
+  const segments: ContourSegment[] = [];
+
+  for (let y = 0; y < grid.length - 1; y++) {
+    for (let x = 0; x < (grid[y]?.length ?? 0) - 1; x++) {
+      const corners = [grid[y][x], grid[y][x + 1], grid[y + 1]?.[x + 1], grid[y + 1]?.[x]];
+      if (!corners.every(Number.isFinite)) continue;
+      const [tl, tr, br, bl] = corners as number[];
+
+      const code =
+        (tl >= level ? 8 : 0) |
+        (tr >= level ? 4 : 0) |
+        (br >= level ? 2 : 0) |
+        (bl >= level ? 1 : 0);
+      if (code === 0 || code === 15) continue;
+
+      // Crossing points on each edge of the square
+      const cross = (a: number, b: number) => (level - a) / (b - a);
+      const points: Record<Edge, { x: number; y: number }> = {
+        top: { x: x + cross(tl, tr), y },
+        right: { x: x + 1, y: y + cross(tr, br) },
+        bottom: { x: x + cross(bl, br), y: y + 1 },
+        left: { x, y: y + cross(tl, bl) },
+      };
+
+      let pairs = SEGMENT_EDGES[code];
+      if (code === 5 || code === 10) {
+        // A center above the level joins the high corners, cutting off the low ones
+        const centerAbove = (tl + tr + br + bl) / 4 >= level;
+        pairs = centerAbove === (code === 5) ? CUT_OFF_TL_BR : CUT_OFF_TR_BL;
+      }
+
+      for (const [from, to] of pairs) {
+        const a = points[from];
+        const b = points[to];
+        segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Value at a fractional grid position from the four surrounding cells, or
+ * null when one of them has no value yet
+ */
+function bilinear(
+  cellAt: (x: number, y: number) => number | undefined,
+  gx: number,
+  gy: number,
+  columns: number,
+  rows: number
+): number | null {
+  const x = Math.min(Math.max(gx, 0), columns - 1);
+  const y = Math.min(Math.max(gy, 0), rows - 1);
+  const x0 = Math.min(Math.floor(x), Math.max(columns - 2, 0));
+  const y0 = Math.min(Math.floor(y), Math.max(rows - 2, 0));
+  const x1 = Math.min(x0 + 1, columns - 1);
+  const y1 = Math.min(y0 + 1, rows - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const corners = [cellAt(x0, y0), cellAt(x1, y0), cellAt(x0, y1), cellAt(x1, y1)];
+  if (!corners.every(value => value !== undefined && Number.isFinite(value))) return null;
+  const [a, b, c, d] = corners as number[];
+
+  return (a * (1 - fx) + b * fx) * (1 - fy) + (c * (1 - fx) + d * fx) * fy;
+}
@@ -0,0 +1,162 @@
+/**
+ * Round settings and their encoding in shareable URLs
+ */
+
+import { randomSeed } from './random';
+import { TRUTH_CHARACTERS, TrendShape, TruthCharacter } from './surfaceGenerator';
+import { isFiniteNumber, isRecord } from './validation';
+import { VARIOGRAM_MODEL_TYPES, VariogramModelType } from './variogramModels';
+
+export interface RoundSettings {
+  seed: number;
+  size: number;
+  maxClicks: number;
+  /** Model family the hidden truth surface is drawn from */
+  truthModel: VariogramModelType;
+  /** Whether the hidden model has geometric anisotropy */
+  anisotropic: boolean;
+  /** Regional trend added to the hidden surface */
+  trend: TrendShape;
+  /** Range, nugget and anisotropy flavor of the hidden model */
+  character: TruthCharacter;
+  /** Target RMSE as a fraction of the truth's standard deviation */
+  targetFraction: number;
+  /** Campaign level being played; null in free play */
+  level: string | null;
+}
+
+export const DEFAULT_ROUND_SETTINGS: Omit<RoundSettings, 'seed'> = {
+  size: 64,
+  maxClicks: 10,
+  truthModel: 'spherical',
+  anisotropic: false,
+  trend: 'none',
+  character: 'typical',
+  targetFraction: 0.15,
+  level: null,
+};
+
+/** Inclusive bounds on the integer settings */
+const LIMITS = {
+  seed: [0, 0xffffffff],
+  size: [8, 256],
+  maxClicks: [1, 1000],
+} as const;
+
+/**
+ * Settings for a fresh round with a random seed
+ */
+export function createRoundSettings(
+  overrides: Partial<RoundSettings> = {}
+): RoundSettings {
+  return { ...DEFAULT_ROUND_SETTINGS, seed: randomSeed(), ...overrides };
+}
+
+/**
+ * The same kind of round on a fresh surface
+ */
+export function withNewSeed(settings: RoundSettings): RoundSettings {
+  return { ...settings, seed: randomSeed() };
+}
+
+/**
+ * Read round settings from a query string such as
+ * `?seed=42&size=64&clicks=10&model=spherical&aniso=1&trend=linear&target=15`.
+ * Returns null when no valid seed is present.
+ */
+export function parseRoundSettings(search: string): RoundSettings | null {
+  const query = new URLSearchParams(search);
+  const seed = parseInteger(query.get('seed'), ...LIMITS.seed);
+  if (seed === null) return null;
+  const target = parseInteger(query.get('target'), 1, 100);
+
+  return {
+    seed,
+    size: parseInteger(query.get('size'), ...LIMITS.size) ?? DEFAULT_ROUND_SETTINGS.size,
+    maxClicks:
+      parseInteger(query.get('clicks'), ...LIMITS.maxClicks) ?? DEFAULT_ROUND_SETTINGS.maxClicks,
+    truthModel: parseModel(query.get('model')) ?? DEFAULT_ROUND_SETTINGS.truthModel,
+    anisotropic: query.get('aniso') === '1',
+    trend: parseTrend(query.get('trend')) ?? DEFAULT_ROUND_SETTINGS.trend,
+    character: parseCharacter(query.get('character')) ?? DEFAULT_ROUND_SETTINGS.character,
+    targetFraction: target !== null ? target / 100 : DEFAULT_ROUND_SETTINGS.targetFraction,
+    level: parseLevel(query.get('level')),
+  };
+}
+
+/**
+ * Encode round settings as a query string
+ */
+export function formatRoundSettings(settings: RoundSettings): string {
+  const query = new URLSearchParams({
+    seed: String(settings.seed),
+    size: String(settings.size),
+    clicks: String(settings.maxClicks),
+    model: settings.truthModel,
+  });
+  if (settings.anisotropic) query.set('aniso', '1');
+  if (settings.trend !== 'none') query.set('trend', settings.trend);
+  if (settings.character !== 'typical') query.set('character', settings.character);
+  if (settings.targetFraction !== DEFAULT_ROUND_SETTINGS.targetFraction) {
+    query.set('target', String(Math.round(settings.targetFraction * 100)));
+  }
+  if (settings.level) query.set('level', settings.level);
+  return `?${query.toString()}`;
+}
+
+/**
+ * Check settings read back from a file or storage field by field. Unlike the
+ * URL encoding, the target fraction is kept exactly.
+ */
+export function isRoundSettings(value: unknown): value is RoundSettings {
+  return (
+    isRecord(value) &&
+    isIntegerIn(value.seed, ...LIMITS.seed) &&
+    isIntegerIn(value.size, ...LIMITS.size) &&
+    isIntegerIn(value.maxClicks, ...LIMITS.maxClicks) &&
+    typeof value.truthModel === 'string' &&
+    parseModel(value.truthModel) !== null &&
+    typeof value.anisotropic === 'boolean' &&
+    typeof value.trend === 'string' &&
+    parseTrend(value.trend) !== null &&
+    typeof value.character === 'string' &&
+    parseCharacter(value.character) !== null &&
+    isFiniteNumber(value.targetFraction) &&
+    value.targetFraction > 0 &&
+    value.targetFraction <= 1 &&
+    (value.level === null || (typeof value.level === 'string' && parseLevel(value.level) !== null))
+  );
+}
+
+/**
+ * Absolute link that rebuilds the given round
+ */
+export function buildShareUrl(settings: RoundSettings, location: Location): string {
+  return `${location.origin}${location.pathname}${formatRoundSettings(settings)}`;
+}
+
+function parseInteger(value: string | null, min: number, max: number): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+function isIntegerIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function parseModel(value: string | null): VariogramModelType | null {
+  return VARIOGRAM_MODEL_TYPES.find(model => model === value) ?? null;
+}
+
+function parseTrend(value: string | null): TrendShape | null {
+  return value === 'none' || value === 'linear' || value === 'quadratic' ? value : null;
+}
+
+function parseCharacter(value: string | null): TruthCharacter | null {
+  return TRUTH_CHARACTERS.find(character => character === value) ?? null;
+}
+
+function parseLevel(value: string | null): string | null {
+  return value !== null && /^[a-z0-9-]{1,32}$/.test(value) ? value : null;
+}
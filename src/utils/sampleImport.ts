@@ -0,0 +1,293 @@
+/**
+ * Loading scattered sample points from CSV and GeoJSON files
+ */
+
+import { Sample } from './kriging';
+import { isRecord } from './validation';
+
+/**
+ * Most distinct sample locations a sandbox takes; kriging, cross-validation
+ * and the variogram cloud all grow at least with the square of the count
+ */
+export const MAX_SAMPLES = 400;
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  x: string;
+  y: string;
+  z: string;
+}
+
+export interface GeoJsonPoints {
+  points: { coordinates: number[]; properties: Record<string, unknown> }[];
+  /** Properties holding a number on at least one point */
+  numericProperties: string[];
+  /** Whether every point carries a third coordinate */
+  hasElevation: boolean;
+}
+
+/**
+ * Placement of a regular grid over world coordinates. Row 0 is the northern
+ * edge, so grid y grows southwards as on the canvas.
+ */
+export interface GridExtent {
+  xmin: number;
+  ymax: number;
+  cellSize: number;
+  width: number;
+  height: number;
+}
+
+export interface Dataset {
+  name: string;
+  /** Samples in grid coordinates */
+  samples: Sample[];
+  extent: GridExtent;
+  /** Smallest and largest sample value */
+  valueRange: [number, number];
+}
+
+/**
+ * Extent of a synthetic round: unit cells with the first row at y = height − 1
+ */
+export function unitExtent(width: number, height: number): GridExtent {
+  return { xmin: 0, ymax: height - 1, cellSize: 1, width, height };
+}
+
+/**
+ * World coordinates of a point given in grid coordinates
+ */
+export function gridToWorld(extent: GridExtent, x: number, y: number): { x: number; y: number } {
+  return { x: extent.xmin + x * extent.cellSize, y: extent.ymax - y * extent.cellSize };
+}
+
+const CANDIDATE_COLUMNS: Record<keyof ColumnMapping, string[]> = {
+  x: ['x', 'easting', 'east', 'lon', 'long', 'longitude'],
+  y: ['y', 'northing', 'north', 'lat', 'latitude'],
+  z: ['z', 'value', 'val', 'elevation', 'elev', 'depth', 'grade'],
+};
+
+/**
+ * Split delimited text into a header and rows. The delimiter (comma,
+ * semicolon or tab) is taken from the header line; double-quoted fields may
+ * contain delimiters.
+ */
+export function parseDelimited(text: string): DelimitedTable {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('Expected a header line and at least one row');
+  }
+
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best
+  );
+
+  const [headers, ...rows] = lines.map(line => splitFields(line, delimiter));
+  return { headers, rows };
+}
+
+function splitFields(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Best guess at which headers hold the coordinates and value. Falls back to
+ * the first three columns.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const pick = (key: keyof ColumnMapping, fallback: number) =>
+    headers.find(header => CANDIDATE_COLUMNS[key].includes(header.toLowerCase())) ??
+    headers[Math.min(fallback, headers.length - 1)];
+
+  return { x: pick('x', 0), y: pick('y', 1), z: pick('z', 2) };
+}
+
+/**
+ * Samples from the mapped columns; rows with a non-numeric field are skipped
+ */
+export function samplesFromTable(table: DelimitedTable, mapping: ColumnMapping): Sample[] {
+  const column = (name: string) => {
+    const index = table.headers.indexOf(name);
+    if (index < 0) throw new Error(`No column named "${name}"`);
+    return index;
+  };
+  const xi = column(mapping.x);
+  const yi = column(mapping.y);
+  const zi = column(mapping.z);
+
+  const samples: Sample[] = [];
+  for (const row of table.rows) {
+    const x = parseFloat(row[xi]);
+    const y = parseFloat(row[yi]);
+    const z = parseFloat(row[zi]);
+    if (Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z)) {
+      samples.push({ x, y, z });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Point and MultiPoint geometries from a GeoJSON document
+ */
+export function parseGeoJson(text: string): GeoJsonPoints {
+  const document: unknown = JSON.parse(text);
+  if (!isRecord(document)) {
+    throw new Error('Not a GeoJSON object');
+  }
+
+  const features: unknown[] =
+    document.type === 'FeatureCollection'
+      ? Array.isArray(document.features)
+        ? document.features
+        : []
+      : document.type === 'Feature'
+      ? [document]
+      : [{ geometry: document, properties: {} }];
+
+  const points: GeoJsonPoints['points'] = [];
+  for (const feature of features) {
+    if (!isRecord(feature) || !isRecord(feature.geometry)) continue;
+
+    const { type, coordinates } = feature.geometry;
+    const properties = isRecord(feature.properties) ? feature.properties : {};
+    if (type === 'Point' && isPosition(coordinates)) {
+      points.push({ coordinates, properties });
+    } else if (type === 'MultiPoint' && Array.isArray(coordinates)) {
+      for (const position of coordinates) {
+        if (isPosition(position)) points.push({ coordinates: position, properties });
+      }
+    }
+  }
+
+  if (points.length === 0) {
+    throw new Error('No Point or MultiPoint features found');
+  }
+
+  const numericProperties = [
+    ...new Set(
+      points.flatMap(point =>
+        Object.keys(point.properties).filter(key => typeof point.properties[key] === 'number')
+      )
+    ),
+  ];
+
+  return {
+    points,
+    numericProperties,
+    hasElevation: points.every(point => point.coordinates.length > 2),
+  };
+}
+
+/**
+ * Samples valued by a numeric property, or by the third coordinate when the
+ * property is null
+ */
+export function samplesFromGeoJson(parsed: GeoJsonPoints, property: string | null): Sample[] {
+  const samples: Sample[] = [];
+  for (const { coordinates, properties } of parsed.points) {
+    const [x, y] = coordinates;
+    const z = property === null ? coordinates[2] : properties[property];
+    if (typeof z === 'number' && Number.isFinite(z) && Number.isFinite(x) && Number.isFinite(y)) {
+      samples.push({ x, y, z });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Fit a grid of at most `maxCells` cells per side around the samples' bounding
+ * box, with a small margin, and move the samples into grid coordinates.
+ * Samples sharing a location are averaged, since they would make the kriging
+ * system singular.
+ */
+export function createDataset(name: string, samples: Sample[], maxCells: number = 64): Dataset {
+  if (samples.length < 2) {
+    throw new Error('Need at least two samples with numeric coordinates and values');
+  }
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (const sample of samples) {
+    minX = Math.min(minX, sample.x);
+    maxX = Math.max(maxX, sample.x);
+    minY = Math.min(minY, sample.y);
+    maxY = Math.max(maxY, sample.y);
+    minZ = Math.min(minZ, sample.z);
+    maxZ = Math.max(maxZ, sample.z);
+  }
+
+  const span = Math.max(maxX - minX, maxY - minY) || 1;
+  const margin = span * 0.05;
+  const cellSize = (span + 2 * margin) / (maxCells - 1);
+  const extent: GridExtent = {
+    xmin: minX - margin,
+    ymax: maxY + margin,
+    cellSize,
+    width: Math.min(Math.ceil((maxX - minX + 2 * margin) / cellSize) + 1, maxCells),
+    height: Math.min(Math.ceil((maxY - minY + 2 * margin) / cellSize) + 1, maxCells),
+  };
+
+  const byLocation = new Map<string, { x: number; y: number; total: number; count: number }>();
+  for (const sample of samples) {
+    const key = `${sample.x},${sample.y}`;
+    const entry = byLocation.get(key) ?? { x: sample.x, y: sample.y, total: 0, count: 0 };
+    entry.total += sample.z;
+    entry.count++;
+    byLocation.set(key, entry);
+  }
+
+  if (byLocation.size > MAX_SAMPLES) {
+    throw new Error(
+      `The file has ${byLocation.size} sample locations; the sandbox takes at most ` +
+        `${MAX_SAMPLES}. Thin or subset the data and load it again.`
+    );
+  }
+
+  return {
+    name,
+    samples: [...byLocation.values()].map(entry => ({
+      x: (entry.x - extent.xmin) / cellSize,
+      y: (extent.ymax - entry.y) / cellSize,
+      z: entry.total / entry.count,
+    })),
+    extent,
+    valueRange: [minZ, maxZ],
+  };
+}
+
+/** A GeoJSON position: two or three numbers */
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) && value.length >= 2 && value.every(item => typeof item === 'number')
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Record of finished rounds kept in the browser, plus result files that
+ * players exchange to compare scores on a shared seed
+ */
+
+import { RoundSettings, formatRoundSettings } from './roundSettings';
+import { isFiniteNumber, isRecord } from './validation';
+import { VariogramParams, isVariogramParams } from './variogramModels';
+
+export interface RoundResult {
+  id: string;
+  /** Query string of the round's settings; equal rounds share a surface */
+  round: string;
+  seed: number;
+  level: string | null;
+  samplesUsed: number;
+  rmse: number;
+  /** RMSE divided by the round's target RMSE */
+  relativeRmse: number;
+  won: boolean;
+  params: VariogramParams;
+  /** Milliseconds from the start to the last sample or variogram change */
+  duration: number;
+  /** Epoch milliseconds */
+  finishedAt: number;
+  /** Who played it, for imported results; null for this browser */
+  player: string | null;
+}
+
+interface ResultFile {
+  version: 1;
+  player: string;
+  results: RoundResult[];
+}
+
+const STORAGE_KEY = 'weighted-neighbors:results';
+const PLAYER_KEY = 'weighted-neighbors:player';
+
+/**
+ * Key that matches every result played on the same surface under the same rules
+ */
+export function roundKey(settings: RoundSettings): string {
+  return formatRoundSettings(settings);
+}
+
+/**
+ * Stored results, oldest first
+ */
+export function listResults(): RoundResult[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isResult) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a result, replacing an earlier record of the same round
+ */
+export function recordResult(result: RoundResult): RoundResult[] {
+  return writeResults(mergeResults(listResults(), [result]));
+}
+
+/**
+ * Add results from another player's file; ones already present are skipped
+ */
+export function importResults(results: RoundResult[]): RoundResult[] {
+  return writeResults(mergeResults(listResults(), results));
+}
+
+/**
+ * Results on one round, best RMSE first
+ */
+export function leaderboard(results: RoundResult[], round: string): RoundResult[] {
+  return results.filter(result => result.round === round).sort((a, b) => a.rmse - b.rmse);
+}
+
+/**
+ * This browser's results as a file for other players to import
+ */
+export function serializeResults(results: RoundResult[], player: string): string {
+  const file: ResultFile = {
+    version: 1,
+    player,
+    results: results.filter(result => result.player === null),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read a result file, throwing on anything that is not one. Every result is
+ * credited to the file's player.
+ */
+export function parseResults(text: string): RoundResult[] {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.results)) {
+    throw new Error('Not a result file');
+  }
+
+  const player = typeof data.player === 'string' && data.player.trim() ? data.player : 'Anonymous';
+  const results = data.results.filter(isResult);
+  if (results.length === 0) throw new Error('Result file contains no results');
+
+  return results.map(result => ({ ...result, player }));
+}
+
+export function loadPlayerName(): string {
+  try {
+    return localStorage.getItem(PLAYER_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function storePlayerName(name: string) {
+  try {
+    localStorage.setItem(PLAYER_KEY, name);
+  } catch {
+    // Storage may be unavailable; the name is then asked for again next visit
+  }
+}
+
+function mergeResults(existing: RoundResult[], added: RoundResult[]): RoundResult[] {
+  const sameRecord = (a: RoundResult, b: RoundResult) => a.id === b.id && a.player === b.player;
+  const merged = [...existing];
+
+  for (const result of added) {
+    const index = merged.findIndex(entry => sameRecord(entry, result));
+    if (index === -1) {
+      merged.push(result);
+    } else if (result.player === null) {
+      merged[index] = result;
+    }
+  }
+  return merged.sort((a, b) => a.finishedAt - b.finishedAt);
+}
+
+function writeResults(results: RoundResult[]): RoundResult[] {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(results));
+  } catch {
+    // Storage may be full or unavailable; keep the results for this visit
+  }
+  return results;
+}
+
+function isResult(value: unknown): value is RoundResult {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.round === 'string' &&
+    (value.level === null || typeof value.level === 'string') &&
+    (value.player === null || typeof value.player === 'string') &&
+    typeof value.won === 'boolean' &&
+    [
+      value.seed,
+      value.samplesUsed,
+      value.rmse,
+      value.relativeRmse,
+      value.duration,
+      value.finishedAt,
+    ].every(isFiniteNumber) &&
+    isVariogramParams(value.params)
+  );
+}
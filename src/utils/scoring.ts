@@ -0,0 +1,131 @@
+/**
+ * Scores a predicted surface against the truth. Predictions may be coarser
+ * than the truth; they are resampled onto its cells first so that every
+ * error compares the same location.
+ */
+
+import { SurfaceGrid } from './kriging';
+
+export interface ErrorHistogram {
+  /** Bin boundaries, one more than there are bins */
+  edges: number[];
+  counts: number[];
+}
+
+export interface SurfaceScore {
+  rmse: number;
+  /** Mean absolute error */
+  mae: number;
+  /** Mean of prediction − truth; positive when the prediction runs high */
+  bias: number;
+  /** Share of the truth's variance the prediction explains */
+  r2: number;
+  /** Prediction − truth over every cell */
+  errors: ErrorHistogram;
+}
+
+const HISTOGRAM_BINS = 20;
+
+/**
+ * Bilinear interpolation of a lattice onto every cell of a width × height
+ * grid. Cells past the last node take the value at the edge.
+ */
+export function resampleGrid(grid: SurfaceGrid, width: number, height: number): number[][] {
+  const { values, step } = grid;
+  if (step === 1 && values.length === height && values[0]?.length === width) return values;
+
+  const rows = values.length;
+  const columns = values[0]?.length ?? 0;
+  if (rows === 0 || columns === 0) return [];
+
+  const sample = (i: number, j: number) => values[Math.min(j, rows - 1)][Math.min(i, columns - 1)];
+
+  return Array.from({ length: height }, (_, y) => {
+    const v = Math.min(y / step, rows - 1);
+    const j = Math.floor(v);
+    const fy = v - j;
+
+    return Array.from({ length: width }, (_, x) => {
+      const u = Math.min(x / step, columns - 1);
+      const i = Math.floor(u);
+      const fx = u - i;
+
+      const top = sample(i, j) * (1 - fx) + sample(i + 1, j) * fx;
+      const bottom = sample(i, j + 1) * (1 - fx) + sample(i + 1, j + 1) * fx;
+      return top * (1 - fy) + bottom * fy;
+    });
+  });
+}
+
+/**
+ * RMSE over every cell of the truth. A plain array is taken to cover each
+ * cell, as a full-resolution prediction does.
+ */
+export function calculateRMSE(truth: number[][], predicted: number[][] | SurfaceGrid): number {
+  return scoreSurface(truth, predicted).rmse;
+}
+
+/**
+ * Every error statistic of a prediction, over every cell of the truth
+ */
+export function scoreSurface(
+  truth: number[][],
+  predicted: number[][] | SurfaceGrid
+): SurfaceScore {
+  const height = truth.length;
+  const width = truth[0]?.length ?? 0;
+  const grid = Array.isArray(predicted) ? { values: predicted, step: 1 } : predicted;
+  const aligned = resampleGrid(grid, width, height);
+
+  const errors: number[] = [];
+  const observed: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const estimate = aligned[y]?.[x];
+      if (!Number.isFinite(estimate)) continue;
+
+      errors.push(estimate - truth[y][x]);
+      observed.push(truth[y][x]);
+    }
+  }
+
+  const count = errors.length;
+  if (count === 0) {
+    return { rmse: 0, mae: 0, bias: 0, r2: 0, errors: { edges: [], counts: [] } };
+  }
+
+  const truthMean = observed.reduce((a, b) => a + b, 0) / count;
+  let squared = 0;
+  let absolute = 0;
+  let sum = 0;
+  let totalSquares = 0;
+  errors.forEach((error, i) => {
+    squared += error * error;
+    absolute += Math.abs(error);
+    sum += error;
+    totalSquares += (observed[i] - truthMean) ** 2;
+  });
+
+  return {
+    rmse: Math.sqrt(squared / count),
+    mae: absolute / count,
+    bias: sum / count,
+    r2: totalSquares > 0 ? 1 - squared / totalSquares : 0,
+    errors: errorHistogram(errors),
+  };
+}
+
+/**
+ * Equal-width bins, symmetric about zero so that bias shows as a lopsided shape
+ */
+function errorHistogram(errors: number[]): ErrorHistogram {
+  const limit = errors.reduce((max, error) => Math.max(max, Math.abs(error)), 0) || 1;
+  const width = (2 * limit) / HISTOGRAM_BINS;
+  const edges = Array.from({ length: HISTOGRAM_BINS + 1 }, (_, i) => -limit + i * width);
+  const counts = new Array(HISTOGRAM_BINS).fill(0);
+
+  for (const error of errors) {
+    counts[Math.min(Math.floor((error + limit) / width), HISTOGRAM_BINS - 1)]++;
+  }
+  return { edges, counts };
+}
@@ -0,0 +1,227 @@
+/**
+ * Serializable record of a round: its settings plus a timestamped log of
+ * every sample taken and every variogram change
+ */
+
+import { Sample } from './kriging';
+import { RoundSettings, isRoundSettings } from './roundSettings';
+import { isFiniteNumber, isRecord } from './validation';
+import { VariogramParams, isVariogramParams } from './variogramModels';
+
+export type SessionEvent =
+  | { type: 'sample'; time: number; sample: Sample }
+  | { type: 'params'; time: number; params: VariogramParams };
+
+export interface Session {
+  version: 1;
+  settings: RoundSettings;
+  /** Epoch milliseconds when the round started */
+  startedAt: number;
+  /** In order; times are milliseconds since the start */
+  events: SessionEvent[];
+  /** Variogram before the first change */
+  initialParams: VariogramParams;
+}
+
+/**
+ * The round as of one point in its log
+ */
+export interface SessionStep {
+  time: number;
+  samples: Sample[];
+  params: VariogramParams;
+}
+
+export interface SavedSession {
+  id: string;
+  name: string;
+  savedAt: number;
+  session: Session;
+}
+
+const STORAGE_KEY = 'weighted-neighbors:sessions';
+const CURRENT_KEY = 'weighted-neighbors:current';
+
+/** Slider changes closer together than this are logged as one */
+const COALESCE_MS = 500;
+
+/**
+ * Append an event. A variogram change that quickly follows another replaces
+ * it, so dragging a slider logs where it settled rather than every step.
+ */
+export function appendEvent(events: SessionEvent[], event: SessionEvent): SessionEvent[] {
+  const last = events[events.length - 1];
+  if (event.type === 'params' && last?.type === 'params' && event.time - last.time < COALESCE_MS) {
+    return [...events.slice(0, -1), event];
+  }
+  return [...events, event];
+}
+
+/**
+ * The state before any event, then after each one
+ */
+export function sessionSteps(session: Session): SessionStep[] {
+  const steps: SessionStep[] = [{ time: 0, samples: [], params: session.initialParams }];
+
+  for (const event of session.events) {
+    const previous = steps[steps.length - 1];
+    steps.push(
+      event.type === 'sample'
+        ? {
+            time: event.time,
+            samples: [...previous.samples, event.sample],
+            params: previous.params,
+          }
+        : { time: event.time, samples: previous.samples, params: event.params }
+    );
+  }
+  return steps;
+}
+
+export function serializeSession(session: Session): string {
+  return JSON.stringify(session, null, 2);
+}
+
+/**
+ * Read a session from JSON, throwing on anything that is not one
+ */
+export function parseSession(text: string): Session {
+  return readSession(JSON.parse(text));
+}
+
+/**
+ * Check parsed JSON field by field, throwing on anything that is not a session
+ */
+function readSession(data: unknown): Session {
+  if (
+    !isRecord(data) ||
+    data.version !== 1 ||
+    !Array.isArray(data.events) ||
+    !isVariogramParams(data.initialParams)
+  ) {
+    throw new Error('Not a saved session');
+  }
+
+  const { settings } = data;
+  if (!isRoundSettings(settings)) throw new Error('Session has no valid round settings');
+
+  const events = data.events.map((event: unknown): SessionEvent => {
+    if (!isRecord(event)) throw new Error('Session log contains an unknown event');
+
+    const time = isFiniteNumber(event.time) ? event.time : 0;
+    if (event.type === 'sample' && isSample(event.sample, settings.size)) {
+      return { type: 'sample', time, sample: event.sample };
+    }
+    if (event.type === 'params' && isVariogramParams(event.params)) {
+      return { type: 'params', time, params: event.params };
+    }
+    throw new Error('Session log contains an unknown event');
+  });
+
+  return {
+    version: 1,
+    settings,
+    startedAt: isFiniteNumber(data.startedAt) ? data.startedAt : 0,
+    events,
+    initialParams: data.initialParams,
+  };
+}
+
+/**
+ * The session with every sample value read from the regenerated truth, so a
+ * log edited by hand cannot change what was measured
+ */
+export function withTruthValues(session: Session, truth: number[][]): Session {
+  return {
+    ...session,
+    events: session.events.map(event =>
+      event.type === 'sample'
+        ? { ...event, sample: { ...event.sample, z: truth[event.sample.y][event.sample.x] } }
+        : event
+    ),
+  };
+}
+
+/**
+ * Sessions saved in this browser, newest first
+ */
+export function listSavedSessions(): SavedSession[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.flatMap(readSavedSession) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSessionLocally(name: string, session: Session): SavedSession[] {
+  const entry: SavedSession = {
+    id: `${Date.now()}-${Math.floor(Math.random() * 1e6)}`,
+    name,
+    savedAt: Date.now(),
+    session,
+  };
+  return writeSavedSessions([entry, ...listSavedSessions()]);
+}
+
+export function deleteSavedSession(id: string): SavedSession[] {
+  return writeSavedSessions(listSavedSessions().filter(entry => entry.id !== id));
+}
+
+/**
+ * Keep the round in progress so that a refresh can resume it
+ */
+export function storeCurrentSession(session: Session) {
+  try {
+    localStorage.setItem(CURRENT_KEY, serializeSession(session));
+  } catch {
+    // Storage may be full or unavailable; a refresh then starts a new round
+  }
+}
+
+export function loadCurrentSession(): Session | null {
+  try {
+    const stored = localStorage.getItem(CURRENT_KEY);
+    return stored ? parseSession(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSavedSessions(sessions: SavedSession[]): SavedSession[] {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // Storage may be full or unavailable; keep the list for this visit
+  }
+  return sessions;
+}
+
+/**
+ * A stored entry as a one-item list, or an empty one when it is damaged
+ */
+function readSavedSession(entry: unknown): SavedSession[] {
+  if (
+    !isRecord(entry) ||
+    typeof entry.id !== 'string' ||
+    typeof entry.name !== 'string' ||
+    !isFiniteNumber(entry.savedAt)
+  ) {
+    return [];
+  }
+
+  try {
+    const session = readSession(entry.session);
+    return [{ id: entry.id, name: entry.name, savedAt: entry.savedAt, session }];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A sample on a node of a size × size grid
+ */
+function isSample(value: unknown, size: number): value is Sample {
+  const onGrid = (c: unknown) => typeof c === 'number' && Number.isInteger(c) && c >= 0 && c < size;
+  return isRecord(value) && onGrid(value.x) && onGrid(value.y) && isFiniteNumber(value.z);
+}
@@ -0,0 +1,210 @@
+/**
+ * Sequential Gaussian simulation conditioned on samples
+ */
+
+import { Sample, gaussianElimination } from './kriging';
+import { Rng, gaussian } from './random';
+import {
+  VariogramParams,
+  evaluateVariogramLag,
+  hasSill,
+  maxRange,
+  totalSill,
+} from './variogramModels';
+
+export interface SimulationOptions {
+  /** Most conditioning values (samples or simulated nodes) per node */
+  maxNeighbors?: number;
+  /** Mean for the simple kriging at each node; defaults to the sample mean */
+  mean?: number;
+}
+
+export interface RealizationSummary {
+  /** E-type estimate: the cell-wise mean over realizations */
+  mean: number[][];
+  p10: number[][];
+  p90: number[][];
+}
+
+const DEFAULT_MAX_NEIGHBORS = 16;
+
+/** Widest search window, in cells, around each node */
+const MAX_SEARCH_RADIUS = 40;
+
+/**
+ * One realization on a width × height grid. Samples are moved to their
+ * nearest node, then every other node is visited along a random path: it is
+ * simple-kriged from the closest known nodes and drawn from the resulting
+ * normal distribution, after which it conditions the nodes that follow.
+ */
+export function simulateConditional(
+  width: number,
+  height: number,
+  samples: Sample[],
+  params: VariogramParams,
+  rng: Rng,
+  options: SimulationOptions = {}
+): number[][] {
+  // Without a sill the covariance sill − γ(h) turns negative with distance
+  if (!hasSill(params)) {
+    throw new Error('Simulation needs a variogram with a sill; the power model has none');
+  }
+
+  const maxNeighbors = options.maxNeighbors ?? DEFAULT_MAX_NEIGHBORS;
+  const mean =
+    options.mean ??
+    (samples.length > 0 ? samples.reduce((sum, s) => sum + s.z, 0) / samples.length : 0);
+  const sill = totalSill(params);
+  const covariance = createCovarianceTable(width, height, params);
+  const template = createSearchTemplate(width, height, params, covariance);
+
+  const values = new Float64Array(width * height);
+  const known = new Uint8Array(width * height);
+
+  for (const sample of samples) {
+    const x = Math.min(Math.max(Math.round(sample.x), 0), width - 1);
+    const y = Math.min(Math.max(Math.round(sample.y), 0), height - 1);
+    values[y * width + x] = sample.z;
+    known[y * width + x] = 1;
+  }
+
+  // Random path over the unknown nodes (Fisher-Yates)
+  const path: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (!known[i]) path.push(i);
+  }
+  for (let i = path.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [path[i], path[j]] = [path[j], path[i]];
+  }
+
+  for (const node of path) {
+    const x = node % width;
+    const y = Math.floor(node / width);
+
+    // Closest known nodes in covariance order
+    const neighbors: { x: number; y: number; z: number }[] = [];
+    for (const offset of template) {
+      if (neighbors.length >= maxNeighbors) break;
+
+      const nx = x + offset.dx;
+      const ny = y + offset.dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      if (known[ny * width + nx]) {
+        neighbors.push({ x: nx, y: ny, z: values[ny * width + nx] });
+      }
+    }
+
+    let estimate = mean;
+    let variance = sill;
+
+    if (neighbors.length > 0) {
+      const A = neighbors.map(a => neighbors.map(b => covariance(a.x - b.x, a.y - b.y)));
+      const b = neighbors.map(neighbor => covariance(x - neighbor.x, y - neighbor.y));
+      const weights = gaussianElimination(A, b);
+
+      if (weights) {
+        for (let i = 0; i < neighbors.length; i++) {
+          estimate += weights[i] * (neighbors[i].z - mean);
+          variance -= weights[i] * b[i];
+        }
+      }
+    }
+
+    values[node] = estimate + Math.sqrt(Math.max(variance, 0)) * gaussian(rng);
+    known[node] = 1;
+  }
+
+  const surface: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    surface.push(Array.from(values.subarray(y * width, (y + 1) * width)));
+  }
+  return surface;
+}
+
+/**
+ * Covariance sill − γ(h) for every whole-cell lag, computed once
+ */
+function createCovarianceTable(
+  width: number,
+  height: number,
+  params: VariogramParams
+): (dx: number, dy: number) => number {
+  const sill = totalSill(params);
+  const columns = 2 * width - 1;
+  const table = new Float64Array(columns * (2 * height - 1));
+
+  for (let dy = -(height - 1); dy < height; dy++) {
+    for (let dx = -(width - 1); dx < width; dx++) {
+      const gamma = dx === 0 && dy === 0 ? 0 : evaluateVariogramLag(dx, dy, params);
+      table[(dy + height - 1) * columns + dx + width - 1] = sill - gamma;
+    }
+  }
+
+  return (dx, dy) => table[(dy + height - 1) * columns + dx + width - 1];
+}
+
+/**
+ * Lags within the search window, most correlated first, so that scanning it
+ * finds the best conditioning nodes under any anisotropy
+ */
+function createSearchTemplate(
+  width: number,
+  height: number,
+  params: VariogramParams,
+  covariance: (dx: number, dy: number) => number
+): { dx: number; dy: number }[] {
+  const radius = Math.min(
+    Math.max(Math.ceil(2 * maxRange(params)), 4),
+    MAX_SEARCH_RADIUS,
+    Math.max(width, height) - 1
+  );
+  const offsets: { dx: number; dy: number; c: number; d: number }[] = [];
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if ((dx === 0 && dy === 0) || Math.abs(dx) >= width || Math.abs(dy) >= height) continue;
+      offsets.push({ dx, dy, c: covariance(dx, dy), d: dx * dx + dy * dy });
+    }
+  }
+
+  return offsets.sort((a, b) => b.c - a.c || a.d - b.d);
+}
+
+/**
+ * Cell-wise E-type mean and 10th/90th percentiles across realizations
+ */
+export function summarizeRealizations(realizations: number[][][]): RealizationSummary {
+  const height = realizations[0]?.length ?? 0;
+  const width = realizations[0]?.[0]?.length ?? 0;
+  const mean: number[][] = [];
+  const p10: number[][] = [];
+  const p90: number[][] = [];
+
+  for (let y = 0; y < height; y++) {
+    const meanRow: number[] = [];
+    const p10Row: number[] = [];
+    const p90Row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      const values = realizations.map(realization => realization[y][x]).sort((a, b) => a - b);
+      meanRow.push(values.reduce((sum, value) => sum + value, 0) / values.length);
+      p10Row.push(quantile(values, 0.1));
+      p90Row.push(quantile(values, 0.9));
+    }
+    mean.push(meanRow);
+    p10.push(p10Row);
+    p90.push(p90Row);
+  }
+
+  return { mean, p10, p90 };
+}
+
+/**
+ * Linearly interpolated quantile of sorted values
+ */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
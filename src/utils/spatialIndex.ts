@@ -0,0 +1,90 @@
+/**
+ * k-d tree over sample locations for neighborhood searches
+ */
+
+import { Sample } from './kriging';
+
+interface KdNode {
+  /** Index into the sample array */
+  index: number;
+  /** 0 splits on x, 1 splits on y */
+  axis: 0 | 1;
+  left: KdNode | null;
+  right: KdNode | null;
+}
+
+export interface KdTree {
+  samples: Sample[];
+  root: KdNode | null;
+}
+
+export interface Neighbor {
+  index: number;
+  distance: number;
+}
+
+/**
+ * Build a balanced tree by splitting on the median of alternating axes
+ */
+export function buildKdTree(samples: Sample[]): KdTree {
+  const coordinate = (i: number, axis: 0 | 1) => (axis === 0 ? samples[i].x : samples[i].y);
+
+  const build = (indices: number[], depth: number): KdNode | null => {
+    if (indices.length === 0) return null;
+
+    const axis: 0 | 1 = depth % 2 === 0 ? 0 : 1;
+    const sorted = [...indices].sort((a, b) => coordinate(a, axis) - coordinate(b, axis));
+    const median = Math.floor(sorted.length / 2);
+
+    return {
+      index: sorted[median],
+      axis,
+      left: build(sorted.slice(0, median), depth + 1),
+      right: build(sorted.slice(median + 1), depth + 1),
+    };
+  };
+
+  return { samples, root: build(samples.map((_, i) => i), 0) };
+}
+
+/**
+ * Up to `k` nearest samples within `radius` of (x, y), closest first
+ */
+export function nearestNeighbors(
+  tree: KdTree,
+  x: number,
+  y: number,
+  k: number,
+  radius: number = Infinity
+): Neighbor[] {
+  const best: Neighbor[] = [];
+  if (k <= 0) return best;
+
+  // Distance beyond which nothing can enter the result
+  const bound = () => (best.length < k ? radius : Math.min(radius, best[best.length - 1].distance));
+
+  const visit = (node: KdNode | null) => {
+    if (!node) return;
+
+    const sample = tree.samples[node.index];
+    const dx = x - sample.x;
+    const dy = y - sample.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance <= bound()) {
+      // Insert keeping the list sorted by distance
+      let position = best.length;
+      while (position > 0 && best[position - 1].distance > distance) position--;
+      best.splice(position, 0, { index: node.index, distance });
+      if (best.length > k) best.pop();
+    }
+
+    const offset = node.axis === 0 ? dx : dy;
+    const [near, far] = offset < 0 ? [node.left, node.right] : [node.right, node.left];
+    visit(near);
+    if (Math.abs(offset) <= bound()) visit(far);
+  };
+
+  visit(tree.root);
+  return best;
+}
@@ -1,100 +1,201 @@
-/**
- * Generates a smooth random surface using Perlin-like noise
- */
-export function generateSurface(width: number, height: number, _seed: number): number[][] {
-  const surface: number[][] = [];
-
-  // Generate surface with multiple octaves of noise
-  for (let y = 0; y < height; y++) {
-    const row: number[] = [];
-    for (let x = 0; x < width; x++) {
-      let value = 0;
-      let amplitude = 1;
-      let frequency = 0.05;
-      let maxValue = 0;
-
-      // Multiple octaves for more realistic surface
-      for (let i = 0; i < 4; i++) {
-        value += amplitude * perlinNoise(x * frequency, y * frequency);
-        maxValue += amplitude;
-        amplitude *= 0.5;
-        frequency *= 2;
-      }
-
-      row.push(value / maxValue);
-    }
-    surface.push(row);
-  }
-
-  // Normalize to 0-100 range
-  return normalizeSurface(surface);
+import { createRng, gaussian, Rng, uniform } from './random';
+import { fft2, nextPowerOfTwo } from './fft';
+import {
+  VARIOGRAM_MODELS,
+  VariogramModelType,
+  VariogramParams,
+  VariogramStructure,
+  evaluateStructureLag,
+} from './variogramModels';
+
+export interface TruthSurface {
+  surface: number[][];
+  params: VariogramParams;
 }
 
+export type TrendShape = 'none' | 'linear' | 'quadratic';
+
 /**
- * Simple Perlin-like noise function
+ * Flavor of the hidden variogram: 'short-noisy' has a short range and a high
+ * nugget, 'long-smooth' a long range and almost no nugget, and 'elongated'
+ * strong anisotropy
  */
-function perlinNoise(x: number, y: number): number {
-  const xi = Math.floor(x);
-  const yi = Math.floor(y);
-  const xf = x - xi;
-  const yf = y - yi;
-
-  // Get pseudo-random values for corners
-  const n00 = pseudoRandom(xi, yi);
-  const n10 = pseudoRandom(xi + 1, yi);
-  const n01 = pseudoRandom(xi, yi + 1);
-  const n11 = pseudoRandom(xi + 1, yi + 1);
-
-  // Interpolation
-  const u = fade(xf);
-  const v = fade(yf);
-
-  const nx0 = lerp(n00, n10, u);
-  const nx1 = lerp(n01, n11, u);
-  const result = lerp(nx0, nx1, v);
-
-  return result;
+export type TruthCharacter = 'typical' | 'short-noisy' | 'long-smooth' | 'elongated';
+
+export const TRUTH_CHARACTERS: TruthCharacter[] = [
+  'typical',
+  'short-noisy',
+  'long-smooth',
+  'elongated',
+];
+
+export interface TruthOptions {
+  model?: VariogramModelType;
+  /** Draw a random major/minor range ratio and azimuth */
+  anisotropic?: boolean;
+  /** Regional trend added on top of the simulated field */
+  trend?: TrendShape;
+  character?: TruthCharacter;
+}
+
+interface CharacterBounds {
+  nugget: [number, number];
+  range: [number, number];
+  /** Minor/major range ratio when anisotropic */
+  ratio: [number, number];
 }
 
+const CHARACTER_BOUNDS: Record<TruthCharacter, CharacterBounds> = {
+  typical: { nugget: [0, 5], range: [10, 30], ratio: [0.3, 0.8] },
+  'short-noisy': { nugget: [8, 14], range: [4, 9], ratio: [0.3, 0.8] },
+  'long-smooth': { nugget: [0, 1], range: [30, 50], ratio: [0.3, 0.8] },
+  elongated: { nugget: [0, 5], range: [18, 36], ratio: [0.15, 0.3] },
+};
+
+const TRUTH_MEAN = 50;
+
 /**
- * Pseudo-random value based on coordinates
+ * Generates a hidden truth surface by Gaussian simulation from randomly drawn
+ * variogram parameters. The same seed always yields the same round.
  */
-function pseudoRandom(x: number, y: number): number {
-  const n = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
-  return n - Math.floor(n);
+export function generateTruthSurface(
+  width: number,
+  height: number,
+  seed: number,
+  options: TruthOptions = {}
+): TruthSurface {
+  const rng = createRng(seed);
+  const character = options.character ?? 'typical';
+  const params = drawHiddenParams(
+    rng,
+    options.model ?? 'spherical',
+    options.anisotropic || character === 'elongated',
+    CHARACTER_BOUNDS[character]
+  );
+  const surface = simulateGaussianField(width, height, params, rng);
+  const trend = options.trend ?? 'none';
+
+  return {
+    surface: trend === 'none' ? surface : addRegionalTrend(surface, trend, rng),
+    params,
+  };
 }
 
 /**
- * Fade function (smooth step)
+ * Add a random regional trend: a tilted plane, or a dome or bowl centered
+ * somewhere in the middle of the grid
  */
-function fade(t: number): number {
-  return t * t * t * (t * (t * 6 - 15) + 10);
+function addRegionalTrend(surface: number[][], shape: TrendShape, rng: Rng): number[][] {
+  const height = surface.length;
+  const width = surface[0]?.length ?? 0;
+  const amplitude = uniform(rng, 8, 20);
+
+  let trend: (u: number, v: number) => number;
+  if (shape === 'linear') {
+    const angle = uniform(rng, 0, 2 * Math.PI);
+    trend = (u, v) => amplitude * ((u - 0.5) * Math.cos(angle) + (v - 0.5) * Math.sin(angle));
+  } else {
+    const cu = uniform(rng, 0.25, 0.75);
+    const cv = uniform(rng, 0.25, 0.75);
+    const sign = rng() < 0.5 ? -1 : 1;
+    trend = (u, v) => sign * amplitude * (2 * ((u - cu) ** 2 + (v - cv) ** 2) - 0.5);
+  }
+
+  return surface.map((row, y) =>
+    row.map((value, x) => value + trend(x / Math.max(width - 1, 1), y / Math.max(height - 1, 1)))
+  );
 }
 
 /**
- * Linear interpolation
+ * Hidden model parameters; the typical bounds are the PRD ranges
  */
-function lerp(a: number, b: number, t: number): number {
-  return a + (b - a) * t;
+function drawHiddenParams(
+  rng: Rng,
+  model: VariogramModelType,
+  anisotropic: boolean,
+  bounds: CharacterBounds
+): VariogramParams {
+  const nugget = uniform(rng, ...bounds.nugget);
+  const structure: VariogramStructure = {
+    model,
+    sill: uniform(rng, 15, 40) - nugget,
+    range: uniform(rng, ...bounds.range),
+  };
+
+  if (model === 'matern') structure.smoothness = uniform(rng, 0.5, 2.5);
+  if (model === 'power') structure.exponent = uniform(rng, 0.5, 1.5);
+  if (anisotropic) {
+    structure.minorRange = structure.range * uniform(rng, ...bounds.ratio);
+    structure.azimuth = uniform(rng, 0, 180);
+  }
+
+  return { nugget, structures: [structure] };
 }
 
 /**
- * Normalize surface values to 0-100
+ * Unconditional Gaussian simulation by circulant embedding.
+ *
+ * The covariance is laid out on a periodic grid at least twice the surface
+ * size, diagonalised with a 2D FFT, and white noise is coloured by the square
+ * root of its eigenvalues. The nugget is added as independent noise. Structures
+ * without a sill use their semivariance at the largest lag as a plateau, which
+ * is a good approximation over the simulated window.
  */
-function normalizeSurface(surface: number[][]): number[][] {
-  let min = Infinity;
-  let max = -Infinity;
-
-  for (const row of surface) {
-    for (const value of row) {
-      min = Math.min(min, value);
-      max = Math.max(max, value);
+export function simulateGaussianField(
+  width: number,
+  height: number,
+  params: VariogramParams,
+  rng: Rng,
+  mean: number = TRUTH_MEAN
+): number[][] {
+  const size = nextPowerOfTwo(2 * Math.max(width, height));
+  const cells = size * size;
+  const half = size / 2;
+  const plateaus = params.structures.map(structure =>
+    VARIOGRAM_MODELS[structure.model].bounded
+      ? structure.sill
+      : Math.max(
+          evaluateStructureLag(half, half, structure),
+          evaluateStructureLag(half, -half, structure)
+        )
+  );
+
+  // Covariance of the structured components at each wrapped (signed) lag
+  const eigRe = new Float64Array(cells);
+  const eigIm = new Float64Array(cells);
+  for (let y = 0; y < size; y++) {
+    const dy = y <= half ? y : y - size;
+    for (let x = 0; x < size; x++) {
+      const dx = x <= half ? x : x - size;
+      let covariance = 0;
+      params.structures.forEach((structure, i) => {
+        covariance += plateaus[i] - evaluateStructureLag(dx, dy, structure);
+      });
+      eigRe[y * size + x] = covariance;
     }
   }
+  fft2(eigRe, eigIm, size);
+
+  // Colour complex white noise; the real part is one realization
+  const re = new Float64Array(cells);
+  const im = new Float64Array(cells);
+  for (let i = 0; i < cells; i++) {
+    // Small negative eigenvalues come from truncation and are clipped
+    const scale = Math.sqrt(Math.max(eigRe[i], 0) / cells);
+    re[i] = scale * gaussian(rng);
+    im[i] = scale * gaussian(rng);
+  }
+  fft2(re, im, size);
 
-  const range = max - min;
+  const nuggetStd = Math.sqrt(Math.max(params.nugget, 0));
+  const surface: number[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < width; x++) {
+      row.push(mean + re[y * size + x] + nuggetStd * gaussian(rng));
+    }
+    surface.push(row);
+  }
 
-  return surface.map(row =>
-    row.map(value => ((value - min) / range) * 100)
-  );
+  return surface;
 }
@@ -0,0 +1,12 @@
+/**
+ * Narrowing helpers for data read back from files and browser storage
+ */
+
+/** A plain JSON object */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
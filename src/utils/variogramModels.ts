@@ -0,0 +1,296 @@
+/**
+ * Variogram model families and their evaluation
+ */
+
+import { isFiniteNumber, isRecord } from './validation';
+
+export type VariogramModelType = 'spherical' | 'exponential' | 'gaussian' | 'matern' | 'power';
+
+/**
+ * One nested structure of a variogram
+ */
+export interface VariogramStructure {
+  model: VariogramModelType;
+  /** Partial sill contributed by this structure */
+  sill: number;
+  /** Range along the major axis */
+  range: number;
+  /** Range along the minor axis; defaults to `range` (isotropic) */
+  minorRange?: number;
+  /** Major axis direction in degrees clockwise from north */
+  azimuth?: number;
+  /** Matérn smoothness ν; 0.5 reproduces the exponential model */
+  smoothness?: number;
+  /** Power model exponent, between 0 and 2 */
+  exponent?: number;
+}
+
+/**
+ * A nugget plus one or more nested structures
+ */
+export interface VariogramParams {
+  nugget: number;
+  structures: VariogramStructure[];
+}
+
+export interface VariogramModel {
+  label: string;
+  /** False for models without a sill, which keep rising with distance */
+  bounded: boolean;
+  /**
+   * Structured part of the model scaled to a unit partial sill.
+   * `h` is the distance divided by the range.
+   */
+  shape: (h: number, structure: VariogramStructure) => number;
+}
+
+export const DEFAULT_SMOOTHNESS = 1.5;
+export const DEFAULT_EXPONENT = 1;
+
+export const VARIOGRAM_MODELS: Record<VariogramModelType, VariogramModel> = {
+  spherical: {
+    label: 'Spherical',
+    bounded: true,
+    shape: h => (h >= 1 ? 1 : 1.5 * h - 0.5 * Math.pow(h, 3)),
+  },
+  exponential: {
+    label: 'Exponential',
+    bounded: true,
+    shape: h => 1 - Math.exp(-3 * h),
+  },
+  gaussian: {
+    label: 'Gaussian',
+    bounded: true,
+    shape: h => 1 - Math.exp(-3 * h * h),
+  },
+  matern: {
+    label: 'Matérn',
+    bounded: true,
+    shape: (h, structure) =>
+      1 - maternCorrelation(3 * h, structure.smoothness ?? DEFAULT_SMOOTHNESS),
+  },
+  power: {
+    label: 'Power',
+    bounded: false,
+    shape: (h, structure) => Math.pow(h, structure.exponent ?? DEFAULT_EXPONENT),
+  },
+};
+
+export const VARIOGRAM_MODEL_TYPES = Object.keys(VARIOGRAM_MODELS) as VariogramModelType[];
+
+/**
+ * Semivariance at a distance: the nugget plus every nested structure.
+ * With an azimuth the distance is taken in that direction; without one, each
+ * structure is evaluated along its own major axis.
+ */
+export function evaluateVariogram(
+  distance: number,
+  params: VariogramParams,
+  azimuth?: number
+): number {
+  if (distance === 0) return 0;
+
+  if (azimuth !== undefined) {
+    const direction = azimuthVector(azimuth);
+    return evaluateVariogramLag(distance * direction.x, distance * direction.y, params);
+  }
+
+  let semivariance = params.nugget;
+  for (const structure of params.structures) {
+    semivariance += evaluateStructure(distance, structure);
+  }
+  return semivariance;
+}
+
+/**
+ * Semivariance for a lag vector in grid units, honoring anisotropy
+ */
+export function evaluateVariogramLag(dx: number, dy: number, params: VariogramParams): number {
+  if (dx === 0 && dy === 0) return 0;
+
+  let semivariance = params.nugget;
+  for (const structure of params.structures) {
+    semivariance += evaluateStructureLag(dx, dy, structure);
+  }
+  return semivariance;
+}
+
+/**
+ * Contribution of a single structure at a distance along its major axis.
+ * For the power model, `sill` is the contribution reached at `range`.
+ */
+export function evaluateStructure(distance: number, structure: VariogramStructure): number {
+  if (distance === 0) return 0;
+
+  const h = distance / Math.max(structure.range, 1e-9);
+  return structure.sill * VARIOGRAM_MODELS[structure.model].shape(h, structure);
+}
+
+/**
+ * Contribution of a single structure for a lag vector
+ */
+export function evaluateStructureLag(
+  dx: number,
+  dy: number,
+  structure: VariogramStructure
+): number {
+  return evaluateStructure(anisotropicDistance(dx, dy, structure), structure);
+}
+
+/**
+ * Length of a lag vector in major-axis units. The minor-axis component is
+ * stretched by range / minorRange, turning the range ellipse into a circle.
+ */
+export function anisotropicDistance(dx: number, dy: number, structure: VariogramStructure): number {
+  const { x, y } = anisotropicCoordinates(dx, dy, structure);
+  return Math.sqrt(x * x + y * y);
+}
+
+/**
+ * A point or lag in the frame where the range ellipse is a circle: the
+ * component along the major axis, then the stretched minor-axis one.
+ * Isotropic structures leave it as it is.
+ */
+export function anisotropicCoordinates(
+  x: number,
+  y: number,
+  structure: VariogramStructure
+): { x: number; y: number } {
+  const minorRange = structure.minorRange ?? structure.range;
+  if (minorRange === structure.range) return { x, y };
+
+  const major = azimuthVector(structure.azimuth ?? 0);
+  return {
+    x: x * major.x + y * major.y,
+    y: (-x * major.y + y * major.x) * (structure.range / Math.max(minorRange, 1e-9)),
+  };
+}
+
+/**
+ * Unit vector for an azimuth in degrees clockwise from north. North is up on
+ * screen, which is negative y in grid coordinates.
+ */
+export function azimuthVector(azimuth: number): { x: number; y: number } {
+  const radians = (azimuth * Math.PI) / 180;
+  return { x: Math.sin(radians), y: -Math.cos(radians) };
+}
+
+/**
+ * Whether stored or imported data is a usable variogram: known model
+ * families, non-negative sills, positive ranges, and optional geometry and
+ * shape parameters within their limits
+ */
+export function isVariogramParams(value: unknown): value is VariogramParams {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.nugget) &&
+    value.nugget >= 0 &&
+    Array.isArray(value.structures) &&
+    value.structures.every(isVariogramStructure)
+  );
+}
+
+function isVariogramStructure(value: unknown): value is VariogramStructure {
+  if (!isRecord(value)) return false;
+
+  const optional = (field: unknown, valid: (n: number) => boolean) =>
+    field === undefined || (isFiniteNumber(field) && valid(field));
+  return (
+    typeof value.model === 'string' &&
+    Object.prototype.hasOwnProperty.call(VARIOGRAM_MODELS, value.model) &&
+    isFiniteNumber(value.sill) &&
+    value.sill >= 0 &&
+    isFiniteNumber(value.range) &&
+    value.range > 0 &&
+    optional(value.minorRange, n => n > 0) &&
+    optional(value.azimuth, () => true) &&
+    optional(value.smoothness, n => n > 0) &&
+    optional(value.exponent, n => n > 0 && n < 2)
+  );
+}
+
+/**
+ * True when every structure levels off at a sill, so that sill − γ(h) is a
+ * valid covariance
+ */
+export function hasSill(params: VariogramParams): boolean {
+  return params.structures.every(structure => VARIOGRAM_MODELS[structure.model].bounded);
+}
+
+/**
+ * True when any structure has a minor range different from its major range
+ */
+export function isAnisotropic(params: VariogramParams): boolean {
+  return params.structures.some(
+    structure => (structure.minorRange ?? structure.range) !== structure.range
+  );
+}
+
+/**
+ * Nugget plus all partial sills
+ */
+export function totalSill(params: VariogramParams): number {
+  return params.structures.reduce((sum, structure) => sum + structure.sill, params.nugget);
+}
+
+/**
+ * Largest range among the nested structures
+ */
+export function maxRange(params: VariogramParams): number {
+  return Math.max(0, ...params.structures.map(structure => structure.range));
+}
+
+/**
+ * Matérn correlation at scaled distance x with smoothness nu
+ */
+function maternCorrelation(x: number, nu: number): number {
+  if (x <= 0) return 1;
+  if (x > 700) return 0;
+
+  return (Math.pow(2, 1 - nu) / gammaFunction(nu)) * Math.pow(x, nu) * besselK(nu, x);
+}
+
+/**
+ * Modified Bessel function of the second kind, from its integral form
+ * K_ν(x) = ∫₀^∞ exp(−x cosh t) cosh(νt) dt
+ */
+function besselK(nu: number, x: number): number {
+  // The integrand is negligible once x·cosh(t) exceeds ~50
+  const tMax = Math.acosh(Math.max(50 / x, 1)) + 1;
+  const steps = 64;
+  const dt = tMax / steps;
+
+  let sum = 0.5 * Math.exp(-x); // t = 0 endpoint
+  for (let i = 1; i <= steps; i++) {
+    const t = i * dt;
+    const weight = i === steps ? 0.5 : 1;
+    sum += weight * Math.exp(-x * Math.cosh(t)) * Math.cosh(nu * t);
+  }
+
+  return sum * dt;
+}
+
+/**
+ * Gamma function via the Lanczos approximation
+ */
+function gammaFunction(z: number): number {
+  if (z < 0.5) {
+    return Math.PI / (Math.sin(Math.PI * z) * gammaFunction(1 - z));
+  }
+
+  const g = 7;
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  const x = z - 1;
+  let a = coefficients[0];
+  const t = x + g + 0.5;
+  for (let i = 1; i < g + 2; i++) {
+    a += coefficients[i] / (x + i);
+  }
+
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, x + 0.5) * Math.exp(-t) * a;
+}
@@ -0,0 +1,14 @@
+/**
+ * Message shapes shared by every job worker. The app sends numbered jobs; a
+ * newer job, or a cancel, supersedes the one running.
+ */
+
+export type JobRequest<Job> =
+  | ({ type: 'run'; jobId: number } & Job)
+  | { type: 'cancel'; jobId: number };
+
+export interface JobError {
+  type: 'error';
+  jobId: number;
+  message: string;
+}
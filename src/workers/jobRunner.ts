@@ -0,0 +1,48 @@
+/**
+ * Worker side of the job protocol: tracks the newest job id so that a long
+ * job can stop between blocks of work once it has been superseded, and turns
+ * failures into error messages.
+ */
+
+import { JobError, JobRequest } from './jobProtocol';
+
+export interface JobContext<Response> {
+  jobId: number;
+  post: (message: Response) => void;
+  /**
+   * Let pending messages arrive; resolves to false once a newer job or a
+   * cancel has superseded this one
+   */
+  stillCurrent: () => Promise<boolean>;
+}
+
+/**
+ * Run each job request this worker receives with `runJob`
+ */
+export function serveJobs<Job, Response extends { jobId: number }>(
+  runJob: (job: Job, context: JobContext<Response>) => Promise<void>
+) {
+  const ctx = self as unknown as Worker;
+  let latestJobId = 0;
+
+  const post = (message: Response | JobError) => ctx.postMessage(message);
+
+  ctx.onmessage = (event: MessageEvent<JobRequest<Job>>) => {
+    const request = event.data;
+    const { jobId } = request;
+    latestJobId = jobId;
+    if (request.type !== 'run') return;
+
+    const stillCurrent = async () => {
+      await yieldToEventLoop();
+      return latestJobId === jobId;
+    };
+    runJob(request, { jobId, post, stillCurrent }).catch(error =>
+      post({ type: 'error', jobId, message: String(error) })
+    );
+  };
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
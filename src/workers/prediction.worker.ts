@@ -0,0 +1,53 @@
+/**
+ * Runs kriging prediction and scoring off the main thread. Work is done in
+ * blocks of rows; between blocks the worker yields so that a newer request
+ * can supersede the running one.
+ */
+
+import { createKrigingSystem, krigeWithSystem } from '../utils/kriging';
+import { scoreSurface } from '../utils/scoring';
+import { serveJobs } from './jobRunner';
+import { PredictionJob, PredictionResponse } from './predictionProtocol';
+
+const ROWS_PER_BLOCK = 8;
+
+serveJobs<PredictionJob, PredictionResponse>(async (job, { jobId, post, stillCurrent }) => {
+  const { width, height, samples, params, neighborhood, estimator, trueSurface } = job;
+  const system = createKrigingSystem(samples, params, { neighborhood, estimator });
+  const estimate: number[][] = [];
+  const variance: number[][] = [];
+
+  for (let rowStart = 0; rowStart < height; rowStart += ROWS_PER_BLOCK) {
+    const rowEnd = Math.min(rowStart + ROWS_PER_BLOCK, height);
+    for (let y = rowStart; y < rowEnd; y++) {
+      const estimateRow: number[] = [];
+      const varianceRow: number[] = [];
+      for (let x = 0; x < width; x++) {
+        const result = krigeWithSystem(system, x, y);
+        estimateRow.push(result.estimate);
+        varianceRow.push(result.variance);
+      }
+      estimate.push(estimateRow);
+      variance.push(varianceRow);
+    }
+
+    post({
+      type: 'progress',
+      jobId,
+      height,
+      rowStart,
+      estimateRows: estimate.slice(rowStart, rowEnd),
+      varianceRows: variance.slice(rowStart, rowEnd),
+    });
+
+    if (!(await stillCurrent())) return;
+  }
+
+  post({
+    type: 'result',
+    jobId,
+    estimate,
+    variance,
+    score: trueSurface ? scoreSurface(trueSurface, estimate) : null,
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Message protocol between the app and the prediction worker
+ */
+
+import { Estimator, Neighborhood, Sample } from '../utils/kriging';
+import { SurfaceScore } from '../utils/scoring';
+import { VariogramParams } from '../utils/variogramModels';
+import { JobError, JobRequest } from './jobProtocol';
+
+export interface PredictionJob {
+  width: number;
+  height: number;
+  samples: Sample[];
+  params: VariogramParams;
+  /** Local search neighborhood; null uses every sample */
+  neighborhood: Neighborhood | null;
+  estimator: Estimator;
+  /** Truth to score against; null when there is nothing to compare with */
+  trueSurface: number[][] | null;
+}
+
+export type PredictionRequest = JobRequest<PredictionJob>;
+
+/**
+ * A block of finished rows, streamed while a job is running
+ */
+export interface PredictionProgress {
+  type: 'progress';
+  jobId: number;
+  height: number;
+  rowStart: number;
+  estimateRows: number[][];
+  varianceRows: number[][];
+}
+
+export interface PredictionResult {
+  type: 'result';
+  jobId: number;
+  estimate: number[][];
+  variance: number[][];
+  /** Comparison with the truth; null when the job carried none */
+  score: SurfaceScore | null;
+}
+
+export type PredictionError = JobError;
+
+export type PredictionResponse = PredictionProgress | PredictionResult | PredictionError;
@@ -0,0 +1,28 @@
+/**
+ * Runs conditional simulation off the main thread, one realization at a
+ * time. Between realizations the worker yields so that a newer request can
+ * supersede the running one.
+ */
+
+import { createRng } from '../utils/random';
+import { simulateConditional, summarizeRealizations } from '../utils/simulation';
+import { serveJobs } from './jobRunner';
+import { SimulationJob, SimulationResponse } from './simulationProtocol';
+
+serveJobs<SimulationJob, SimulationResponse>(async (job, { jobId, post, stillCurrent }) => {
+  const { width, height, samples, params, seed, mean } = job;
+  const rng = createRng(seed);
+  const realizations: number[][][] = [];
+
+  for (let index = 0; index < job.realizations; index++) {
+    const realization = simulateConditional(width, height, samples, params, rng, {
+      mean: mean ?? undefined,
+    });
+    realizations.push(realization);
+    post({ type: 'progress', jobId, index, realization });
+
+    if (!(await stillCurrent())) return;
+  }
+
+  post({ type: 'result', jobId, realizations, ...summarizeRealizations(realizations) });
+});
@@ -0,0 +1,43 @@
+/**
+ * Message protocol between the app and the simulation worker
+ */
+
+import { Sample } from '../utils/kriging';
+import { VariogramParams } from '../utils/variogramModels';
+import { JobError, JobRequest } from './jobProtocol';
+
+export interface SimulationJob {
+  width: number;
+  height: number;
+  samples: Sample[];
+  params: VariogramParams;
+  realizations: number;
+  seed: number;
+  /** Known mean for simple kriging; null uses the sample mean */
+  mean: number | null;
+}
+
+export type SimulationRequest = JobRequest<SimulationJob>;
+
+/**
+ * One finished realization, streamed while a job is running
+ */
+export interface SimulationProgress {
+  type: 'progress';
+  jobId: number;
+  index: number;
+  realization: number[][];
+}
+
+export interface SimulationResult {
+  type: 'result';
+  jobId: number;
+  realizations: number[][][];
+  mean: number[][];
+  p10: number[][];
+  p90: number[][];
+}
+
+export type SimulationError = JobError;
+
+export type SimulationResponse = SimulationProgress | SimulationResult | SimulationError;